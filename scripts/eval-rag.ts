@@ -0,0 +1,110 @@
+import { parseArgs } from 'node:util';
+import { createLocalRetrievalProvider } from '@/lib/rag';
+import {
+  createMockAnswerModel,
+  loadEvalDataset,
+  runEvalCase,
+  summarizeEval,
+  type EvalSummary,
+} from '@/lib/eval';
+
+// Offline RAG evaluation: pnpm eval [--dataset file.jsonl] [--docs dir] [--k 5] [--json] [--min-<metric> n]
+
+// Query variants need a live model; the mock pipeline searches the question as asked
+process.env.RAG_MULTI_QUERY = 'false';
+process.env.LOG_LEVEL ??= 'warn';
+
+const THRESHOLD_FLAGS = {
+  'min-recall': 'recallAtK',
+  'min-citation-accuracy': 'citationAccuracy',
+  'min-no-answer-precision': 'noAnswerPrecision',
+  'min-no-answer-recall': 'noAnswerRecall',
+  'min-similarity': 'answerSimilarity',
+} as const satisfies Record<string, keyof EvalSummary>;
+
+// Applied when a flag is not passed, so a regressed baseline fails the run; 0 disables one
+const DEFAULT_THRESHOLDS: Record<keyof typeof THRESHOLD_FLAGS, number> = {
+  'min-recall': 0.9,
+  'min-citation-accuracy': 0.9,
+  'min-no-answer-precision': 1,
+  'min-no-answer-recall': 1,
+  'min-similarity': 0.5,
+};
+
+const { values } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'data/eval/questions.jsonl' },
+    docs: { type: 'string' },
+    k: { type: 'string', default: '5' },
+    json: { type: 'boolean', default: false },
+    ...Object.fromEntries(Object.keys(THRESHOLD_FLAGS).map((flag) => [flag, { type: 'string' as const }])),
+  },
+});
+
+const format = (value: number | null) => (value === null ? 'n/a' : value.toFixed(3));
+
+async function main(): Promise<number> {
+  const k = Number(values.k);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`Invalid --k: ${values.k}`);
+  }
+
+  const dataset = await loadEvalDataset(String(values.dataset));
+  const options = {
+    model: createMockAnswerModel(),
+    provider: createLocalRetrievalProvider(values.docs as string | undefined),
+    k,
+  };
+
+  const results = [];
+  for (const evalCase of dataset) {
+    results.push(await runEvalCase(evalCase, options));
+  }
+  const summary = summarizeEval(results);
+
+  if (values.json) {
+    console.log(JSON.stringify({ summary, results }, null, 2));
+  } else {
+    for (const result of results) {
+      const verdict = result.noAnswer === result.expectedNoAnswer ? 'ok' : 'MISMATCH';
+      console.log(
+        `${result.id}: recall=${format(result.recall)} citations=${result.citations.correct}/${result.citations.total} ` +
+          `similarity=${format(result.similarity)} no-answer=${result.noAnswer} (${verdict})`
+      );
+    }
+    console.log('');
+    console.log(`cases                ${summary.cases}`);
+    console.log(`recall@${k}             ${format(summary.recallAtK)}`);
+    console.log(`citation accuracy    ${format(summary.citationAccuracy)}`);
+    console.log(`no-answer precision  ${format(summary.noAnswerPrecision)}`);
+    console.log(`no-answer recall     ${format(summary.noAnswerRecall)}`);
+    console.log(`answer similarity    ${format(summary.answerSimilarity)}`);
+  }
+
+  // Thresholds turn the report into a deploy gate
+  const failures = Object.entries(THRESHOLD_FLAGS).flatMap(([flag, metric]) => {
+    const raw = (values as Record<string, unknown>)[flag];
+    const threshold = raw === undefined ? DEFAULT_THRESHOLDS[flag as keyof typeof THRESHOLD_FLAGS] : Number(raw);
+    if (!Number.isFinite(threshold)) {
+      throw new Error(`Invalid --${flag}: ${raw}`);
+    }
+
+    const actual = summary[metric];
+    // Datasets without e.g. off-topic cases only fail on a missing metric when its flag is explicit
+    if (actual === null) {
+      return raw === undefined || threshold === 0 ? [] : [`${metric} n/a < ${threshold}`];
+    }
+    return actual < threshold ? [`${metric} ${format(actual)} < ${threshold}`] : [];
+  });
+
+  failures.forEach((failure) => console.error(`FAIL ${failure}`));
+  return failures.length > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,38 @@
+import { authorizeAdmin } from '@/lib/admin';
+import { getLogger } from '@/lib/logger';
+import { getRetrievalCache } from '@/lib/retrieval-cache';
+
+// Hit/miss counters and size of the retrieval cache
+export async function GET(req: Request) {
+  const denied = authorizeAdmin(req);
+  if (denied) {
+    return denied;
+  }
+
+  const cache = getRetrievalCache();
+  if (!cache) {
+    return Response.json({ enabled: false });
+  }
+
+  const stats = await cache.stats();
+  const lookups = stats.hits + stats.misses;
+
+  return Response.json({
+    enabled: true,
+    ...stats,
+    hitRate: lookups > 0 ? Number((stats.hits / lookups).toFixed(3)) : 0,
+  });
+}
+
+// Purges every cached search, e.g. after the RAG index is rebuilt
+export async function DELETE(req: Request) {
+  const denied = authorizeAdmin(req);
+  if (denied) {
+    return denied;
+  }
+
+  const purged = (await getRetrievalCache()?.clear()) ?? 0;
+  getLogger().info('rag.cache.purged', { purged });
+
+  return Response.json({ purged });
+}
@@ -0,0 +1,65 @@
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai';
+import { apiError } from '@/lib/api-errors';
+import { isValidChatId } from '@/lib/chat-store';
+import { getLogger } from '@/lib/logger';
+import { getSessionId } from '@/lib/session';
+import { getStreamStore } from '@/lib/stream-store';
+
+interface StreamRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function getChatId({ params }: StreamRouteContext): Promise<string | null> {
+  const { id } = await params;
+  return isValidChatId(id) ? id : null;
+}
+
+function invalidChatId() {
+  return apiError({ error: 'invalid_request', message: 'Invalid chat id' });
+}
+
+// Responses only resume or stop for the browser session that started them; without one, none do
+function getOwnerId(req: Request): string {
+  return getSessionId(req) ?? '';
+}
+
+// Reattaches to the chat's latest response; 204 when there is none to resume
+export async function GET(req: Request, context: StreamRouteContext) {
+  const id = await getChatId(context);
+  if (!id) {
+    return invalidChatId();
+  }
+
+  const stream = getStreamStore().resume(id, getOwnerId(req));
+  if (!stream) {
+    return new Response(null, { status: 204 });
+  }
+
+  getLogger().info('chat.stream.resumed', { chatId: id });
+  return new Response(stream.pipeThrough(new TextEncoderStream()), {
+    headers: UI_MESSAGE_STREAM_HEADERS,
+  });
+}
+
+// Lets the client check for a resumable response before reattaching
+export async function HEAD(req: Request, context: StreamRouteContext) {
+  const id = await getChatId(context);
+  if (!id) {
+    return new Response(null, { status: 400 });
+  }
+
+  return new Response(null, { status: getStreamStore().has(id, getOwnerId(req)) ? 200 : 204 });
+}
+
+// Stops generating the chat's response
+export async function DELETE(req: Request, context: StreamRouteContext) {
+  const id = await getChatId(context);
+  if (!id) {
+    return invalidChatId();
+  }
+
+  if (getStreamStore().cancel(id, getOwnerId(req))) {
+    getLogger().info('chat.stream.stopped', { chatId: id });
+  }
+  return new Response(null, { status: 204 });
+}
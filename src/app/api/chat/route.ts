@@ -1,296 +1,492 @@
-import { streamText, UIMessage, convertToModelMessages } from 'ai';
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  type InferUIMessageChunk,
+  type LanguageModelUsage,
+  type UIMessageStreamOnFinishCallback,
+  type UIMessageStreamWriter,
+} from 'ai';
+import type { RAGDocument } from '@/lib/rag';
+import { streamRagAnswer } from '@/lib/rag/answer';
+import { isRetrievalAvailable } from '@/lib/rag/search';
+import {
+  detectInjection,
+  getInjectionAction,
+  screenMessages,
+} from '@/lib/rag/injection';
+import {
+  buildNoAnswer,
+  buildRefusal,
+  classifyIntent,
+  detectLocale,
+  getNoAnswerPolicy,
+  isNoAnswerMessage,
+  type NoAnswerResponse,
+} from '@/lib/rag/no-answer';
+import {
+  getGroundingConfig,
+  verifyGrounding,
+  type GroundingConfig,
+} from '@/lib/rag/grounding';
+import { generateFollowUps, isFollowUpEnabled } from '@/lib/suggestions';
+import { getFileParts } from '@/lib/attachments';
+import { MAX_BODY_BYTES, chatRequestSchema } from '@/lib/chat-request';
+import { readJsonBody } from '@/lib/request-body';
+import {
+  getMessageText,
+  type ChatMessageMetadata,
+  type ChatUIMessage,
+} from '@/lib/messages';
+import { resolveModel } from '@/lib/models';
+import { getChatStore } from '@/lib/chat-store';
+import { getStreamStore } from '@/lib/stream-store';
+import { apiError, formatRequestIssues } from '@/lib/api-errors';
+import {
+  checkRateLimit,
+  getClientIdentity,
+  recordTokenUsage,
+} from '@/lib/rate-limit';
+import { sessionCookie } from '@/lib/session';
+import {
+  REQUEST_ID_HEADER,
+  getLogger,
+  getRequestId,
+  redactUserText,
+  withRequestLogger,
+} from '@/lib/logger';
 
 // Allow streaming responses up to 300 seconds (5 minutes) to match Vercel project settings
 export const maxDuration = 300;
 
-// Type definitions for text message parts
-interface TextMessagePart {
-  type: 'text';
-  text: string;
+// Reasoning summaries are only requested and forwarded when enabled
+const SEND_REASONING = process.env.CHAT_SEND_REASONING === 'true';
+const REASONING_PROVIDER_OPTIONS = SEND_REASONING
+  ? { openai: { reasoningSummary: 'auto' } }
+  : undefined;
+
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+  return withRequestLogger(requestId, () => handleChatRequest(req, requestId));
 }
 
-// Type definitions for RAG API response
-interface RAGResult {
-  id: string;
-  text: string;
-  score: number;
-  metadata?: {
-    title?: string;
-    text?: string;
-    [key: string]: unknown;
+async function handleChatRequest(req: Request, requestId: string): Promise<Response> {
+  const logger = getLogger();
+  const client = getClientIdentity(req);
+  // Correlation ID returned to the client on every response, with the session cookie once
+  const headers: Record<string, string> = {
+    [REQUEST_ID_HEADER]: requestId,
+    ...(client.newSession && { 'Set-Cookie': sessionCookie(client.sessionId) }),
   };
-}
 
-export async function POST(req: Request) {
   try {
-    const { messages }: { messages: UIMessage[] } = await req.json();
-    
-    console.log('📨 Received messages:', messages.length);
+    // RATE LIMITING: per-IP and per-session request buckets plus a daily token quota
+    const decision = await checkRateLimit(client);
 
-    // Get the last user message for embedding
-    const lastUserMessage = messages[messages.length - 1];
-    let userQuery = '';
-    
-    // Extract text content from the message (UIMessage uses 'parts' format)
-    if (lastUserMessage?.parts) {
-      const textParts = lastUserMessage.parts
-        .filter((part): part is TextMessagePart => part.type === 'text')
-        .map((part) => part.text);
-      userQuery = textParts.join(' ');
+    if (!decision.allowed) {
+      logger.warn('chat.request.rate_limited', {
+        reason: decision.reason,
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+      return apiError(
+        decision.reason === 'quota'
+          ? { error: 'quota_exceeded', message: 'Daily usage limit reached, please try again tomorrow', requestId }
+          : { error: 'rate_limited', message: 'Too many requests, please slow down', requestId },
+        { ...headers, 'Retry-After': String(decision.retryAfterSeconds) }
+      );
     }
 
-    console.log('✅ Extracted query:', userQuery);
+    // Oversized bodies are refused before they are buffered or parsed
+    const body = await readJsonBody(req, MAX_BODY_BYTES);
+    if (!body.ok) {
+      logger.warn('chat.request.unreadable', { reason: body.reason });
+      return apiError(
+        body.reason === 'too_large'
+          ? { error: 'payload_too_large', message: `Request body must be at most ${MAX_BODY_BYTES} bytes`, requestId }
+          : { error: 'invalid_request', message: 'Request body must be JSON', requestId },
+        headers
+      );
+    }
 
-    // RAG INTEGRATION: Query production RAG system
-    if (userQuery.trim()) {
-      try {
-        console.log('🔍 Querying production RAG for:', userQuery);
-        
-        // Query RAG system (no embedding generation needed - handled by RAG API)
-        const ragResponse = await queryRAGSystem(userQuery);
-        
-        if (ragResponse) {
-          console.log('📚 RAG context retrieved from FIFA.com production');
-        }
+    const parsed = chatRequestSchema.safeParse(body.body);
 
-        // Build system prompt based on RAG results
-        const systemPrompt = buildSystemPrompt(ragResponse, userQuery);
+    if (!parsed.success) {
+      const issues = formatRequestIssues(parsed.error);
+      logger.warn('chat.request.invalid', { issues });
+      return apiError(
+        { error: 'invalid_request', message: 'Invalid chat request', requestId, issues },
+        headers
+      );
+    }
 
-        // Generate response with RAG context
-        const result = streamText({
-          model: 'openai/gpt-4o-mini',
-          system: systemPrompt,
-          messages: convertToModelMessages(messages),
-        });
+    const { id: chatId, messages, model: requestedModel } = parsed.data;
+    
+    logger.info('chat.request.received', { chatId, messageCount: messages.length });
+
+    // Chats belong to the browser session that created them
+    if (chatId && !(await getChatStore().canSave(chatId, client.sessionId))) {
+      logger.warn('chat.request.foreign_chat', { chatId });
+      return apiError({ error: 'not_found', message: 'Chat not found', requestId }, headers);
+    }
 
-        return result.toUIMessageStreamResponse();
+    // Persist the conversation once the answer has finished streaming
+    const persistChat: UIMessageStreamOnFinishCallback<ChatUIMessage> = async ({ messages: finishedMessages }) => {
+      if (!chatId) {
+        return;
+      }
 
-      } catch (ragError) {
-        console.error('❌ RAG query failed:', ragError);
-        // Continue with normal chat even if RAG fails
+      try {
+        await getChatStore().saveMessages(chatId, client.sessionId, finishedMessages);
+      } catch (error) {
+        logger.error('chat.persist.failed', { chatId, error });
       }
+    };
+
+    // Generation outlives the client connection so a dropped client can
+    // resume it; the stream store aborts it once nobody has resumed it for a
+    // grace period, or on an explicit stop (DELETE /api/chat/:id/stream).
+    // Without a chat id nothing can resume, so a disconnect cancels the answer
+    const abortController = new AbortController();
+    if (!chatId) {
+      req.signal.addEventListener('abort', () => abortController.abort(), { once: true });
     }
 
-    // Fallback: Generate normal chat response without RAG
-    const result = streamText({
-      model: 'gpt-5',
-      messages: convertToModelMessages(messages),
-    });
+    // Errors after streaming has started reach the client as an error chunk
+    const onStreamError = (error: unknown) => {
+      logger.error('chat.stream.failed', { error });
+      return `The answer could not be completed (request ${requestId}).`;
+    };
 
-    return result.toUIMessageStreamResponse();
+    // Counts the answer's model tokens against the client's daily quota
+    const trackUsage = (usage: LanguageModelUsage | PromiseLike<LanguageModelUsage>) => {
+      Promise.resolve(usage)
+        .then(({ totalTokens }) => recordTokenUsage(client, totalTokens ?? 0))
+        .catch((error) => logger.warn('chat.usage.record_failed', { error }));
+    };
 
-  } catch (error) {
-    console.error('❌ Chat API error:', error);
-    return new Response('Internal Server Error', { status: 500 });
-  }
-}
+    const respond = (stream: ReadableStream<ChatUIMessageChunk>) =>
+      createUIMessageStreamResponse({
+        stream,
+        headers,
+        consumeSseStream: chatId
+          ? ({ stream: sseStream }) => getStreamStore().publish(chatId, client.sessionId, sseStream, abortController, req.signal)
+          : undefined,
+      });
 
-// ============================================================================
-// RAG SYSTEM INTEGRATION
-// ============================================================================
+    // Streams a policy reply without calling the model
+    const respondWithNoAnswer = (noAnswer: NoAnswerResponse) =>
+      respond(createUIMessageStream<ChatUIMessage>({
+        originalMessages: messages,
+        onFinish: persistChat,
+        onError: onStreamError,
+        execute: ({ writer }) => {
+          writer.write({ type: 'start' });
+          writeNoAnswer(writer, noAnswer);
+          writer.write({ type: 'finish' });
+        },
+      }));
 
-interface RAGDocument {
-  url: string;
-  title: string;
-  content: string;
-  fetched_at: string;
-  score?: number;
-}
+    // Get the last user message for embedding
+    const lastUserMessage = messages[messages.length - 1];
+    const rawQuery = getMessageText(lastUserMessage);
+    const hasAttachments = lastUserMessage !== undefined && getFileParts(lastUserMessage).length > 0;
 
-interface RAGResponse {
-  documents: RAGDocument[];
-  has_results: boolean;
-  query_id?: string;
-}
+    logger.debug('chat.query.extracted', { query: redactUserText(rawQuery), hasAttachments });
 
-// RAG System Query Function - Using Production RAG API
-async function queryRAGSystem(query: string): Promise<RAGResponse | null> {
-  try {
-    console.log('🔍 Querying production RAG API:', {
-      query: query.substring(0, 100) + '...'
-    });
+    const locale = detectLocale(rawQuery, req.headers.get('accept-language'));
 
-    // Connect to production RAG API on Railway
-    const RAG_API_URL = process.env.RAG_REMOTE_URL || 'https://hackathonservice-production.up.railway.app';
+    // PROMPT INJECTION: instruction-like user text is stripped, only logged, or refused.
+    // Earlier turns are screened too, since the client sends (and can forge) the whole history
+    const injectionAction = getInjectionAction();
+    const injected = detectInjection(rawQuery);
+    let modelMessages = screenMessages(messages, injectionAction);
+    let userQuery = getMessageText(modelMessages[modelMessages.length - 1]);
 
-    const ragRequest = {
-      query: query,
-      limit: 5,
-      score_threshold: 0.3
-    };
+    if (injected.length > 0) {
+      logger.warn('chat.injection.detected', { target: 'query', matches: injected.length, action: injectionAction });
 
-    console.log('📡 RAG API request:', ragRequest);
+      if (injectionAction === 'refuse') {
+        return respondWithNoAnswer(buildRefusal(locale));
+      }
 
-    const response = await fetch(`${RAG_API_URL}/search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(ragRequest)
-    });
+      // A question stripped to nothing is more likely a false positive than an attack:
+      // answer it as asked rather than refusing a fan's question
+      if (!userQuery.trim() && rawQuery.trim()) {
+        logger.warn('chat.injection.strip_reverted', { target: 'query' });
+        modelMessages = [...modelMessages.slice(0, -1), lastUserMessage];
+        userQuery = rawQuery;
+      }
+    }
+
+    // NO-ANSWER POLICY: configured intents (e.g. greetings) get a localized reply without the model
+    const intent = classifyIntent(userQuery);
 
-    if (!response.ok) {
-      throw new Error(`RAG API error: ${response.status} ${response.statusText}`);
+    // Attachments always go to the model, e.g. "hi" with a ticket screenshot
+    if (!hasAttachments && intent !== 'in-domain' && getNoAnswerPolicy().directIntents.includes(intent)) {
+      logger.info('chat.no_answer.direct', { intent, locale });
+      return respondWithNoAnswer(buildNoAnswer(userQuery, locale));
     }
 
-    const ragResults = await response.json();
-    
-    console.log('📥 RAG API response:', {
-      status: response.status,
-      totalFound: ragResults.total_found || 0,
-      resultsCount: ragResults.results?.length || 0
-    });
+    // RAG INTEGRATION: the model searches FIFA.com content through a tool,
+    // unless the retrieval backend's circuit breaker is open
+    const ragAvailable = isRetrievalAvailable();
+    if (userQuery.trim() && !ragAvailable) {
+      logger.warn('chat.rag.unavailable');
+    }
 
-    // Transform RAG API response to our RAGResponse format
-    const documents: RAGDocument[] = ragResults.results?.map((result: RAGResult, index: number) => {
-      console.log('📄 Document found:', {
-        id: result.id,
-        score: result.score,
-        contentLength: result.text?.length || 0,
-        contentPreview: result.text?.substring(0, 200) + '...'
+    if (userQuery.trim() && ragAvailable) {
+      const model = resolveModel('rag', requestedModel);
+      const grounding = getGroundingConfig();
+      const followUps = isFollowUpEnabled();
+      logger.info('chat.model.selected', { path: 'rag', model: model.id });
+
+      const stream = createUIMessageStream<ChatUIMessage>({
+        originalMessages: messages,
+        onFinish: persistChat,
+        onError: onStreamError,
+        execute: async ({ writer }) => {
+          // Documents in [Source N] order, for grounding verification
+          const citedDocuments: RAGDocument[] = [];
+
+          const result = streamRagAnswer({
+            model: model.id,
+            messages: modelMessages,
+            locale,
+            // Replaced in place if a later search also comes back empty
+            onNoAnswer: (noAnswer) => {
+              writer.write({ type: 'data-noAnswer', id: 'no-answer', data: noAnswer });
+            },
+            // Stream the documents each search placed in context as source parts
+            onSources: (sources, firstSourceNumber) => {
+              sources.forEach(({ document }, index) => {
+                citedDocuments.push(document);
+                writer.write(buildSourcePart(document, firstSourceNumber + index));
+              });
+            },
+            // Query variant generation counts toward the quota along with the answer
+            onSearchUsage: trackUsage,
+            providerOptions: REASONING_PROVIDER_OPTIONS,
+            abortSignal: abortController.signal,
+          });
+          trackUsage(result.totalUsage);
+
+          const answerStream = result.toUIMessageStream<ChatUIMessage>({
+            messageMetadata: modelMetadata(model.id),
+            sendReasoning: SEND_REASONING,
+            onError: onStreamError,
+          });
+
+          if (grounding.mode === 'off' && !followUps) {
+            writer.merge(answerStream);
+            return;
+          }
+
+          await streamFinalizedAnswer(writer, answerStream, {
+            question: userQuery,
+            documents: citedDocuments,
+            grounding,
+            followUps,
+            noAnswer: buildNoAnswer(userQuery, locale),
+            abortSignal: abortController.signal,
+            trackUsage,
+          });
+        },
       });
 
-      return {
-        url: convertToRealFIFAUrl(result.id, result.text || ''),
-        title: result.metadata?.title || `FIFA Document ${index + 1}`,
-        content: result.text || 'No content available',
-        fetched_at: new Date().toISOString(),
-        score: result.score
-      };
-    }) || [];
-
-    const ragResponse: RAGResponse = {
-      documents,
-      has_results: documents.length > 0
-    };
+      return respond(stream);
+    }
+
+    // Fallback: Generate normal chat response without RAG
+    const model = resolveModel('fallback', requestedModel);
+    logger.info('chat.model.selected', { path: 'fallback', model: model.id });
+
+    const result = streamText({
+      model: model.id,
+      messages: convertToModelMessages(modelMessages, { ignoreIncompleteToolCalls: true }),
+      providerOptions: REASONING_PROVIDER_OPTIONS,
+      abortSignal: abortController.signal,
+    });
+    trackUsage(result.totalUsage);
+
+    const followUps = isFollowUpEnabled();
+
+    const stream = createUIMessageStream<ChatUIMessage>({
+      originalMessages: messages,
+      onFinish: persistChat,
+      onError: onStreamError,
+      execute: async ({ writer }) => {
+        const answerStream = result.toUIMessageStream<ChatUIMessage>({
+          messageMetadata: modelMetadata(model.id),
+          sendReasoning: SEND_REASONING,
+          onError: onStreamError,
+        });
+
+        if (!followUps) {
+          writer.merge(answerStream);
+          return;
+        }
 
-    console.log('✅ RAG query completed:', {
-      documentsFound: documents.length,
-      hasResults: ragResponse.has_results,
-      avgScore: documents.length > 0 ? (documents.reduce((sum, d) => sum + (d.score || 0), 0) / documents.length).toFixed(3) : 0
+        // Nothing was retrieved to verify the answer against, but it still gets follow-ups
+        await streamFinalizedAnswer(writer, answerStream, {
+          question: userQuery,
+          documents: [],
+          grounding: { ...getGroundingConfig(), mode: 'off' },
+          followUps,
+          noAnswer: buildNoAnswer(userQuery, locale),
+          abortSignal: abortController.signal,
+          trackUsage,
+        });
+      },
     });
 
-    return ragResponse;
+    return respond(stream);
 
   } catch (error) {
-    console.error('❌ RAG API connection error:', error);
-    return null; // Graceful degradation
+    logger.error('chat.request.failed', { error });
+    return apiError(
+      { error: 'internal_error', message: 'The chat request failed', requestId },
+      headers
+    );
   }
 }
 
-// System Prompt Builder
-function buildSystemPrompt(ragResponse: RAGResponse | null, userQuery: string): string {
-  if (!ragResponse || !ragResponse.has_results || !ragResponse.documents?.length) {
-    // No-Answer Policy (PRD requirement)
-    return buildNoAnswerPrompt();
-  }
+// ============================================================================
+// GROUNDING VERIFICATION & FOLLOW-UPS
+// ============================================================================
 
-  const context = buildContextFromSources(ragResponse.documents);
-  
-  return `You are a FIFA.com assistant chatbot. Your role is to help visitors find accurate information about FIFA events, tickets, and official content.
+type ChatUIMessageChunk = InferUIMessageChunk<ChatUIMessage>;
+
+interface FinalizeOptions {
+  question: string;
+  // Documents in [Source N] order
+  documents: RAGDocument[];
+  grounding: GroundingConfig;
+  followUps: boolean;
+  noAnswer: NoAnswerResponse;
+  // Stops the grounding judge and follow-up generation along with the answer
+  abortSignal: AbortSignal;
+  // Counts judge and follow-up generation tokens against the client's quota
+  trackUsage: (usage: LanguageModelUsage) => void;
+}
 
-STRICT GUIDELINES:
-- Answer ONLY based on the retrieved FIFA.com content provided below
-- Always include citations and sources for your answers
-- If the context doesn't fully answer the question, acknowledge this and provide what information you can
-- Focus on ticket sales, World Cup information, FIFA events, and official policies
-- Maintain a helpful, professional tone
-- Provide specific details when available (dates, prices, procedures)
-- Never hallucinate or provide information not found in the retrieved context
+/**
+ * Forwards the answer stream while holding back its finish chunk until the
+ * answer's claims are verified and follow-up questions are generated. With
+ * the "no-answer" action the answer text is held too, and replaced by the
+ * no-answer reply unless fully grounded.
+ */
+async function streamFinalizedAnswer(
+  writer: UIMessageStreamWriter<ChatUIMessage>,
+  answerStream: AsyncIterable<ChatUIMessageChunk>,
+  { question, documents, grounding: config, followUps, noAnswer, abortSignal, trackUsage }: FinalizeOptions
+) {
+  const logger = getLogger();
+  const holdText = config.mode !== 'off' && config.action === 'no-answer';
+  const heldText: ChatUIMessageChunk[] = [];
+  let answer = '';
+
+  for await (const chunk of answerStream) {
+    if (chunk.type === 'text-delta') {
+      answer += chunk.delta;
+    }
 
-DOMAIN RESTRICTION:
-- Only reference content from fifa.com/en and its subpages
-- Do not provide information from other sources or your training data
+    if (chunk.type === 'finish') {
+      // The no-answer reply makes no claims to check
+      const { report, usage: judgeUsage } = isNoAnswerMessage(answer)
+        ? { report: null }
+        : await verifyGrounding(answer, documents, config, abortSignal);
+      if (judgeUsage) {
+        trackUsage(judgeUsage);
+      }
+      const withheld = holdText && report !== null && report.status !== 'grounded';
+
+      if (report) {
+        logger.info('rag.grounding.verified', {
+          mode: report.mode,
+          status: report.status,
+          claims: report.claims.length,
+          unsupported: report.claims.filter((claim) => !claim.supported).length,
+          withheld
+        });
+      }
 
-RETRIEVED CONTEXT FROM FIFA.COM:
-${context}
+      if (withheld) {
+        writeNoAnswer(writer, noAnswer);
+      } else {
+        heldText.forEach((held) => writer.write(held));
+      }
+      heldText.length = 0;
 
-Based on this FIFA.com content, please answer the user's question: "${userQuery}"`;
-}
+      if (report) {
+        writer.write({ type: 'data-grounding', data: { ...report, withheld } });
+      }
+
+      // No-answer replies already carry their own follow-ups
+      if (followUps && !withheld && answer.trim() && !isNoAnswerMessage(answer)) {
+        const { questions, usage } = await generateFollowUps(question, answer, abortSignal);
+        if (usage) {
+          trackUsage(usage);
+        }
+        if (questions.length > 0) {
+          writer.write({ type: 'data-followUps', data: { questions } });
+        }
+      }
+    } else if (holdText && chunk.type.startsWith('text-')) {
+      heldText.push(chunk);
+      continue;
+    }
 
-// No-Answer Policy (PRD requirement)
-function buildNoAnswerPrompt(): string {
-  return `You must respond with exactly this message:
+    writer.write(chunk);
+  }
 
-"I don't know based on current fifa.com content I have indexed."
+  // Aborted or failed streams end without a finish chunk
+  heldText.forEach((held) => writer.write(held));
+}
 
-Then suggest the user visit fifa.com directly for the most current information about FIFA events and tickets.`;
+// Policy reply as text, with its suggested links and follow-ups as a data part
+function writeNoAnswer(writer: UIMessageStreamWriter<ChatUIMessage>, noAnswer: NoAnswerResponse) {
+  writer.write({ type: 'text-start', id: 'no-answer' });
+  writer.write({ type: 'text-delta', id: 'no-answer', delta: noAnswer.message });
+  writer.write({ type: 'text-end', id: 'no-answer' });
+  writer.write({ type: 'data-noAnswer', id: 'no-answer', data: noAnswer });
 }
 
-// Context Builder from RAG Sources
-function buildContextFromSources(documents: RAGDocument[]): string {
-  const contextParts = documents.map((doc, index) => {
-    return `[Source ${index + 1}] ${doc.title}
-Content: ${doc.content}
-URL: ${doc.url}
-Last indexed: ${doc.fetched_at}`;
-  });
+// ============================================================================
+// MESSAGE PARTS
+// ============================================================================
 
-  return contextParts.join('\n\n---\n\n');
+// Records which model produced an answer, sent with the stream's start chunk
+function modelMetadata(modelId: string) {
+  return ({ part }: { part: { type: string } }): ChatMessageMetadata | undefined =>
+    part.type === 'start' ? { model: modelId } : undefined;
 }
 
-// Convert synthetic hackathon URLs to real FIFA.com URLs
-function convertToRealFIFAUrl(docId: string, content: string): string {
-  // URL mapping based on content analysis
-  const urlMappings: { [key: string]: string } = {
-    // Stadium and venue information
-    'estadio-azteca': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums/mexico-city',
-    'estadio-akron': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums/guadalajara',
-    'estadio-bbva': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums/monterrey',
-    'sofi-stadium': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums/los-angeles',
-    'lumen-field': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums/seattle',
-    
-    // Group stage and match information
-    'grupo-d': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/groups',
-    'phase-groups': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/groups',
-    
-    // Ticket information
-    'tickets': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/tickets',
-    'ticketing': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/tickets',
-    
-    // General tournament info
-    'world-cup-2026': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026',
-    'canada-mexico-usa': 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026'
+// Source Part Builder - exposes a retrieved document to the client
+function buildSourcePart(doc: RAGDocument, sourceNumber: number) {
+  return {
+    type: 'source-url' as const,
+    sourceId: `source-${sourceNumber}`,
+    url: doc.url,
+    title: doc.title,
+    providerMetadata: {
+      rag: {
+        score: doc.score ?? null,
+        fetchedAt: doc.fetched_at,
+        excerpt: buildExcerpt(doc.content),
+      },
+    },
   };
+}
 
-  // Analyze content to determine the most appropriate URL
-  const contentLower = content.toLowerCase();
-  
-  // Stadium-specific mappings
-  if (contentLower.includes('estadio azteca') || contentLower.includes('87,523') || contentLower.includes('mexico city')) {
-    return urlMappings['estadio-azteca'];
-  }
-  if (contentLower.includes('estadio akron') || contentLower.includes('49,813') || contentLower.includes('guadalajara')) {
-    return urlMappings['estadio-akron'];
-  }
-  if (contentLower.includes('estadio bbva') || contentLower.includes('53,500') || contentLower.includes('monterrey')) {
-    return urlMappings['estadio-bbva'];
-  }
-  if (contentLower.includes('sofi stadium') || contentLower.includes('los ángeles') || contentLower.includes('los angeles')) {
-    return urlMappings['sofi-stadium'];
+// Excerpt shown in inline citation cards
+function buildExcerpt(content: string, maxLength = 280): string {
+  const normalized = content.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxLength) {
+    return normalized;
   }
-  if (contentLower.includes('lumen field') || contentLower.includes('seattle')) {
-    return urlMappings['lumen-field'];
-  }
-  
-  // Group and match information
-  if (contentLower.includes('grupo d') || contentLower.includes('group d')) {
-    return urlMappings['grupo-d'];
-  }
-  if (contentLower.includes('fase de grupos') || contentLower.includes('group stage')) {
-    return urlMappings['phase-groups'];
-  }
-  
-  // Ticket information
-  if (contentLower.includes('ticket') || contentLower.includes('precio') || contentLower.includes('price') || contentLower.includes('usd')) {
-    return urlMappings['tickets'];
-  }
-  
-  // Stadium capacity general
-  if (contentLower.includes('stadium') || contentLower.includes('estadio') || contentLower.includes('capacity') || contentLower.includes('capacidad')) {
-    return 'https://fifa.com/en/tournaments/mens/worldcup/canadamexicousa2026/stadiums';
-  }
-  
-  // Default to main tournament page
-  return urlMappings['world-cup-2026'];
+
+  const truncated = normalized.substring(0, maxLength);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${truncated.substring(0, lastSpace > 0 ? lastSpace : maxLength)}…`;
 }
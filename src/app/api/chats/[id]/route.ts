@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { apiError, formatRequestIssues } from '@/lib/api-errors';
+import { getChatStore, isValidChatId } from '@/lib/chat-store';
+import { readJsonBody } from '@/lib/request-body';
+import { getSessionId } from '@/lib/session';
+
+interface ChatRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Only a title is sent; anything larger is refused unread
+const MAX_BODY_BYTES = 4 * 1024;
+
+const renameRequestSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+function notFound() {
+  return apiError({ error: 'not_found', message: 'Chat not found' });
+}
+
+interface ChatKey {
+  id: string;
+  ownerId: string;
+}
+
+// Resolves the chat id and its owner, the browser session; null when neither can address a chat
+async function getChatKey(req: Request, { params }: ChatRouteContext): Promise<ChatKey | null> {
+  const { id } = await params;
+  const ownerId = getSessionId(req);
+  return isValidChatId(id) && ownerId ? { id, ownerId } : null;
+}
+
+export async function GET(req: Request, context: ChatRouteContext) {
+  const key = await getChatKey(req, context);
+  const chat = key ? await getChatStore().get(key.id, key.ownerId) : null;
+
+  return chat ? Response.json(chat) : notFound();
+}
+
+export async function PATCH(req: Request, context: ChatRouteContext) {
+  const key = await getChatKey(req, context);
+  if (!key) {
+    return notFound();
+  }
+
+  const body = await readJsonBody(req, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return apiError(
+      body.reason === 'too_large'
+        ? { error: 'payload_too_large', message: `Request body must be at most ${MAX_BODY_BYTES} bytes` }
+        : { error: 'invalid_request', message: 'Request body must be JSON' }
+    );
+  }
+
+  const parsed = renameRequestSchema.safeParse(body.body);
+  if (!parsed.success) {
+    return apiError({
+      error: 'invalid_request',
+      message: 'Invalid chat title',
+      issues: formatRequestIssues(parsed.error),
+    });
+  }
+
+  const chat = await getChatStore().rename(key.id, key.ownerId, parsed.data.title);
+  return chat ? Response.json(chat) : notFound();
+}
+
+export async function DELETE(req: Request, context: ChatRouteContext) {
+  const key = await getChatKey(req, context);
+  const deleted = key ? await getChatStore().delete(key.id, key.ownerId) : false;
+
+  return deleted ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,9 @@
+import { getChatStore } from '@/lib/chat-store';
+import { getSessionId } from '@/lib/session';
+
+// Past conversations of the browser session, most recently updated first
+export async function GET(req: Request) {
+  const sessionId = getSessionId(req);
+  const chats = sessionId ? await getChatStore().list(sessionId) : [];
+  return Response.json({ chats });
+}
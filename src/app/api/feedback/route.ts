@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { apiError, formatRequestIssues } from '@/lib/api-errors';
+import { getChatStore, isValidChatId } from '@/lib/chat-store';
+import { getFeedbackStore } from '@/lib/feedback-store';
+import { getLogger } from '@/lib/logger';
+import { getMessageText } from '@/lib/messages';
+import { readJsonBody } from '@/lib/request-body';
+import { getSessionId } from '@/lib/session';
+import { getSourceParts, getSourceScore } from '@/lib/sources';
+
+// A rating and a short comment; anything larger is refused unread
+const MAX_BODY_BYTES = 16 * 1024;
+
+const feedbackRequestSchema = z.object({
+  chatId: z.string().refine(isValidChatId, { message: 'Invalid chat id' }),
+  messageId: z.string().min(1),
+  rating: z.enum(['up', 'down']),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+// Message, sources and model are read from the caller's stored chat rather than trusted from the client
+export async function POST(req: Request) {
+  const body = await readJsonBody(req, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return apiError(
+      body.reason === 'too_large'
+        ? { error: 'payload_too_large', message: `Request body must be at most ${MAX_BODY_BYTES} bytes` }
+        : { error: 'invalid_request', message: 'Request body must be JSON' }
+    );
+  }
+
+  const parsed = feedbackRequestSchema.safeParse(body.body);
+
+  if (!parsed.success) {
+    return apiError({
+      error: 'invalid_request',
+      message: 'Invalid feedback request',
+      issues: formatRequestIssues(parsed.error),
+    });
+  }
+
+  const { chatId, messageId, rating, comment } = parsed.data;
+  const sessionId = getSessionId(req);
+  const chat = sessionId ? await getChatStore().get(chatId, sessionId) : null;
+  const index = chat?.messages.findIndex((message) => message.id === messageId) ?? -1;
+  const message = chat?.messages[index];
+
+  if (!chat || !message || message.role !== 'assistant') {
+    return apiError({ error: 'not_found', message: 'Message not found' });
+  }
+
+  const question = chat.messages
+    .slice(0, index)
+    .reverse()
+    .find((candidate) => candidate.role === 'user');
+
+  await getFeedbackStore().add({
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    chatId,
+    messageId,
+    rating,
+    comment: comment || undefined,
+    model: message.metadata?.model,
+    question: getMessageText(question),
+    answer: getMessageText(message),
+    sources: getSourceParts(message).map((source) => ({
+      url: source.url,
+      title: source.title,
+      score: getSourceScore(source),
+    })),
+  });
+
+  getLogger().info('feedback.recorded', { chatId, messageId, rating });
+
+  return Response.json({ ok: true }, { status: 201 });
+}
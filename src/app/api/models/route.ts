@@ -0,0 +1,7 @@
+import { getModelRegistry } from '@/lib/models';
+
+// Models users can pick from in the chat UI
+export async function GET() {
+  const { models, defaults } = getModelRegistry();
+  return Response.json({ models, defaults });
+}
@@ -0,0 +1,6 @@
+import { getStarterPrompts } from '@/lib/suggestions';
+
+// Starter prompts for the empty chat screen
+export async function GET() {
+  return Response.json({ prompts: getStarterPrompts() });
+}
@@ -5,95 +5,405 @@ import {
   ConversationContent,
   ConversationScrollButton,
 } from '@/components/ai-elements/conversation';
-import { Message, MessageContent } from '@/components/ai-elements/message';
+import {
+  Branch,
+  BranchMessages,
+  BranchNext,
+  BranchPage,
+  BranchPrevious,
+  BranchSelector,
+} from '@/components/ai-elements/branch';
+import { Suggestion } from '@/components/ai-elements/suggestion';
 import {
   PromptInput,
+  PromptInputAttachButton,
+  PromptInputAttachment,
+  PromptInputAttachments,
+  PromptInputModelSelect,
+  PromptInputModelSelectContent,
+  PromptInputModelSelectItem,
+  PromptInputModelSelectTrigger,
+  PromptInputModelSelectValue,
   PromptInputTextarea,
   PromptInputSubmit,
+  PromptInputToolbar,
+  PromptInputTools,
 } from '@/components/ai-elements/prompt-input';
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useChat } from '@ai-sdk/react';
-import { Response } from '@/components/ai-elements/response';
+import { generateId, type FileUIPart } from 'ai';
+import { ChatSidebar } from '@/components/chat/chat-sidebar';
+import { ChatError } from '@/components/chat/chat-error';
+import { ChatMessage } from '@/components/chat/chat-message';
+import { useMessageBranches } from '@/hooks/use-message-branches';
+import {
+  ATTACHMENT_MAX_FILES,
+  ATTACHMENT_MEDIA_TYPES,
+  getFileParts,
+  readAttachment,
+  validateAttachment,
+} from '@/lib/attachments';
+import type { ChatSummary, StoredChat } from '@/lib/chat-store/types';
+import type { ChatUIMessage } from '@/lib/messages';
+import type { ModelDefinition } from '@/lib/models';
 
 const ConversationDemo = () => {
   const [input, setInput] = useState('');
-  const { messages, sendMessage, status } = useChat();
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelDefinition[]>([]);
+  const [model, setModel] = useState<string>();
+  const [starterPrompts, setStarterPrompts] = useState<string[]>([]);
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  // Changing the id makes useChat start a new Chat seeded with these messages
+  const [activeChat, setActiveChat] = useState<{
+    id: string;
+    messages: ChatUIMessage[];
+  }>(() => ({ id: generateId(), messages: [] }));
+
+  const refreshChats = useCallback(() => {
+    fetch('/api/chats')
+      .then((res) => res.json())
+      .then((data: { chats: ChatSummary[] }) => setChats(data.chats))
+      .catch((error) => console.error('Failed to load chats:', error));
+  }, []);
+
+  const {
+    messages,
+    sendMessage,
+    regenerate,
+    setMessages,
+    status,
+    error,
+    clearError,
+    stop,
+    resumeStream,
+  } = useChat<ChatUIMessage>({
+    id: activeChat.id,
+    messages: activeChat.messages,
+    onFinish: refreshChats,
+  });
+  const { fork, getBranch, selectBranch, resetBranches } = useMessageBranches(
+    messages,
+    setMessages
+  );
+  const busy = status === 'submitted' || status === 'streaming';
+
+  useEffect(() => {
+    refreshChats();
+  }, [refreshChats]);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((res) => res.json())
+      .then((data: { models: ModelDefinition[] }) => setModels(data.models))
+      .catch((error) => console.error('Failed to load models:', error));
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/suggestions')
+      .then((res) => res.json())
+      .then((data: { prompts: string[] }) => setStarterPrompts(data.prompts))
+      .catch((error) => console.error('Failed to load starter prompts:', error));
+  }, []);
+
+  const handleSelectChat = useCallback(async (id: string) => {
+    const res = await fetch(`/api/chats/${id}`);
+    if (!res.ok) {
+      console.error('Failed to load chat:', res.status);
+      return;
+    }
+    const chat: StoredChat = await res.json();
+    resetBranches();
+    setActiveChat({ id: chat.id, messages: chat.messages });
+  }, [resetBranches]);
+
+  // Opens the chat referenced by a shared link (?chat=<id>#message-<id>); chats only open for their owner
+  useEffect(() => {
+    const sharedChatId = new URLSearchParams(window.location.search).get('chat');
+    if (sharedChatId) {
+      handleSelectChat(sharedChatId).then(() => {
+        const anchor = window.location.hash.slice(1);
+        if (anchor) {
+          requestAnimationFrame(() =>
+            document.getElementById(anchor)?.scrollIntoView()
+          );
+        }
+      });
+    }
+  }, [handleSelectChat]);
+
+  const handleNewChat = () => {
+    resetBranches();
+    setActiveChat({ id: generateId(), messages: [] });
+  };
+
+  // Keeps the current answer as an alternate branch before regenerating it
+  const handleRegenerate = (index: number) => {
+    fork(index);
+    regenerate({ messageId: messages[index].id, body: { model } });
+  };
+
+  // Replaces the answer in place, e.g. after an incomplete response
+  const handleRetry = (index: number) => {
+    regenerate({ messageId: messages[index].id, body: { model } });
+  };
+
+  // Forks the conversation from an edited user message, keeping its attachments
+  const handleEdit = (index: number, text: string) => {
+    const files = getFileParts(messages[index]);
+    fork(index);
+    setMessages(messages.slice(0, index));
+    sendMessage({ text, files }, { body: { model } });
+  };
+
+  const handleSuggestion = (text: string) => {
+    sendMessage({ text }, { body: { model } });
+  };
+
+  const handleRenameChat = async (id: string, title: string) => {
+    await fetch(`/api/chats/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    refreshChats();
+  };
+
+  const handleDeleteChat = async (id: string) => {
+    await fetch(`/api/chats/${id}`, { method: 'DELETE' });
+    if (id === activeChat.id) {
+      handleNewChat();
+    }
+    refreshChats();
+  };
+
+  // Picked, dropped or pasted files; rejected ones are reported, not attached
+  const handleFilesAdded = async (files: File[]) => {
+    const errors: string[] = [];
+    const accepted: File[] = [];
+    files.forEach((file) => {
+      const error = validateAttachment({ name: file.name, mediaType: file.type, size: file.size });
+      if (error) {
+        errors.push(error);
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    const room = ATTACHMENT_MAX_FILES - attachments.length;
+    if (accepted.length > room) {
+      errors.push(`At most ${ATTACHMENT_MAX_FILES} files can be attached`);
+    }
+    setAttachmentError(errors.length > 0 ? errors.join('. ') : null);
+
+    try {
+      const parts = await Promise.all(accepted.slice(0, room).map(readAttachment));
+      setAttachments((current) => [...current, ...parts].slice(0, ATTACHMENT_MAX_FILES));
+    } catch (error) {
+      console.error('Failed to read attachment:', error);
+      setAttachmentError('Could not read the attached file');
+    }
+  };
+
+  const handleStop = () => {
+    stop();
+    // The server keeps generating for clients that reconnect until told to stop
+    fetch(`/api/chat/${activeChat.id}/stream`, { method: 'DELETE' }).catch(
+      (error) => console.error('Failed to stop response:', error)
+    );
+  };
+
+  // Reattaches to the answer after a dropped connection, otherwise asks again
+  const handleErrorRetry = async () => {
+    const connectionLost = error instanceof TypeError;
+    clearError();
+
+    const res = connectionLost
+      ? await fetch(`/api/chat/${activeChat.id}/stream`, { method: 'HEAD' }).catch(() => null)
+      : null;
+
+    if (res?.status === 200) {
+      // The resumed stream replays the answer from the start
+      if (messages.at(-1)?.role === 'assistant') {
+        setMessages(messages.slice(0, -1));
+      }
+      resumeStream();
+    } else {
+      regenerate({ body: { model } });
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim()) {
-      sendMessage({ text: input });
+    if (busy) {
+      handleStop();
+      return;
+    }
+    if (input.trim() || attachments.length > 0) {
+      sendMessage({ text: input, files: attachments }, { body: { model } });
       setInput('');
+      setAttachments([]);
+      setAttachmentError(null);
     }
   };
 
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
-      <div className="w-full max-w-4xl h-[90vh] flex flex-col bg-card border border-border rounded-xl shadow-lg overflow-hidden">
-        {/* Header */}
-        <div className="flex-shrink-0 px-6 py-4 border-b border-border bg-card">
-          <h1 className="text-xl font-semibold text-foreground">AI Gateway Chatbot</h1>
-          <p className="text-sm text-muted-foreground">Powered by GPT-5</p>
-        </div>
+      <div className="w-full max-w-6xl h-[90vh] flex gap-4">
+        <ChatSidebar
+          className="hidden w-64 flex-shrink-0 md:flex"
+          chats={chats}
+          activeChatId={activeChat.id}
+          onSelectChat={handleSelectChat}
+          onNewChat={handleNewChat}
+          onRenameChat={handleRenameChat}
+          onDeleteChat={handleDeleteChat}
+        />
+        <div className="flex-1 min-w-0 flex flex-col bg-card border border-border rounded-xl shadow-lg overflow-hidden">
+          {/* Header */}
+          <div className="flex-shrink-0 px-6 py-4 border-b border-border bg-card">
+            <h1 className="text-xl font-semibold text-foreground">AI Gateway Chatbot</h1>
+            <p className="text-sm text-muted-foreground">Powered by GPT-5</p>
+          </div>
 
-        {/* Chat Area */}
-        <div className="flex-1 flex flex-col min-h-0">
-          <div className="flex-1 overflow-hidden">
-            <Conversation className="h-full">
-              <ConversationContent className="px-6 py-4">
-                {messages.length === 0 ? (
-                  <div className="flex items-center justify-center h-full text-center">
-                    <div className="space-y-2">
-                      <div className="text-2xl">👋</div>
-                      <h2 className="text-lg font-medium text-foreground">Welcome to AI Gateway Chatbot</h2>
-                      <p className="text-muted-foreground">Start a conversation by typing a message below.</p>
+          {/* Chat Area */}
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex-1 overflow-hidden">
+              <Conversation className="h-full">
+                <ConversationContent className="px-6 py-4">
+                  {messages.length === 0 ? (
+                    <div className="flex items-center justify-center h-full text-center">
+                      <div className="space-y-2">
+                        <div className="text-2xl">👋</div>
+                        <h2 className="text-lg font-medium text-foreground">Welcome to AI Gateway Chatbot</h2>
+                        <p className="text-muted-foreground">Start a conversation by typing a message below.</p>
+                        {starterPrompts.length > 0 && (
+                          <div className="flex flex-wrap justify-center gap-2 pt-4">
+                            {starterPrompts.map((prompt) => (
+                              <Suggestion
+                                key={prompt}
+                                onClick={handleSuggestion}
+                                suggestion={prompt}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  messages.map((message) => (
-                    <Message from={message.role} key={message.id}>
-                      <MessageContent>
-                        {message.parts.map((part, i) => {
-                          switch (part.type) {
-                            case 'text':
-                              return (
-                                <Response key={`${message.id}-${i}`}>
-                                  {part.text}
-                                </Response>
-                              );
-                            default:
-                              return null;
+                  ) : (
+                    messages.map((message, index) => {
+                      const branch = getBranch(index);
+                      const renderMessage = (item: ChatUIMessage) => (
+                        <ChatMessage
+                          busy={busy}
+                          chatId={activeChat.id}
+                          key={item.id}
+                          latest={index === messages.length - 1}
+                          message={item}
+                          onEdit={(text) => handleEdit(index, text)}
+                          onRegenerate={() => handleRegenerate(index)}
+                          onRetry={() => handleRetry(index)}
+                          onSuggestion={handleSuggestion}
+                        />
+                      );
+
+                      if (!branch) {
+                        return renderMessage(message);
+                      }
+
+                      return (
+                        <Branch
+                          defaultBranch={branch.active}
+                          key={message.id}
+                          onBranchChange={(branchIndex) =>
+                            selectBranch(index, branch.alternatives[branchIndex])
                           }
-                        })}
-                      </MessageContent>
-                    </Message>
-                  ))
-                )}
-              </ConversationContent>
-              <ConversationScrollButton />
-            </Conversation>
-          </div>
+                        >
+                          <BranchMessages>
+                            {branch.alternatives.map(renderMessage)}
+                          </BranchMessages>
+                          <BranchSelector from={message.role}>
+                            <BranchPrevious disabled={busy} />
+                            <BranchPage />
+                            <BranchNext disabled={busy} />
+                          </BranchSelector>
+                        </Branch>
+                      );
+                    })
+                  )}
+                  {error && (
+                    <ChatError error={error} onRetry={handleErrorRetry} />
+                  )}
+                </ConversationContent>
+                <ConversationScrollButton />
+              </Conversation>
+            </div>
 
-          {/* Prompt Input Area */}
-          <div className="flex-shrink-0 border-t border-border bg-card">
-            <div className="px-6 py-4">
-              <PromptInput
-                onSubmit={handleSubmit}
-                className="w-full relative"
-              >
-                <PromptInputTextarea
-                  value={input}
-                  placeholder="Type your message here..."
-                  onChange={(e) => setInput(e.currentTarget.value)}
-                  className="pr-12 resize-none"
-                  rows={1}
-                />
-                <PromptInputSubmit
-                  status={status === 'streaming' ? 'streaming' : 'ready'}
-                  disabled={!input.trim()}
-                  className="absolute bottom-2 right-2"
-                />
-              </PromptInput>
+            {/* Prompt Input Area */}
+            <div className="flex-shrink-0 border-t border-border bg-card">
+              <div className="px-6 py-4">
+                <PromptInput
+                  onFilesAdded={handleFilesAdded}
+                  onSubmit={handleSubmit}
+                  className="w-full"
+                >
+                  {attachments.length > 0 && (
+                    <PromptInputAttachments>
+                      {attachments.map((attachment, index) => (
+                        <PromptInputAttachment
+                          attachment={attachment}
+                          key={`${attachment.filename}-${index}`}
+                          onRemove={() =>
+                            setAttachments((current) => current.filter((_, i) => i !== index))
+                          }
+                        />
+                      ))}
+                    </PromptInputAttachments>
+                  )}
+                  <PromptInputTextarea
+                    value={input}
+                    placeholder="Type your message here..."
+                    onChange={(e) => setInput(e.currentTarget.value)}
+                    className="resize-none"
+                    rows={1}
+                  />
+                  <PromptInputToolbar>
+                    <PromptInputTools>
+                      <PromptInputAttachButton
+                        accept={ATTACHMENT_MEDIA_TYPES.join(',')}
+                        disabled={attachments.length >= ATTACHMENT_MAX_FILES}
+                        onFilesAdded={handleFilesAdded}
+                      />
+                      <PromptInputModelSelect
+                        value={model}
+                        onValueChange={setModel}
+                      >
+                        <PromptInputModelSelectTrigger>
+                          <PromptInputModelSelectValue placeholder="Default model" />
+                        </PromptInputModelSelectTrigger>
+                        <PromptInputModelSelectContent>
+                          {models.map((option) => (
+                            <PromptInputModelSelectItem
+                              key={option.id}
+                              value={option.id}
+                            >
+                              {option.name}
+                            </PromptInputModelSelectItem>
+                          ))}
+                        </PromptInputModelSelectContent>
+                      </PromptInputModelSelect>
+                    </PromptInputTools>
+                    <PromptInputSubmit
+                      status={status}
+                      disabled={!busy && !input.trim() && attachments.length === 0}
+                    />
+                  </PromptInputToolbar>
+                </PromptInput>
+                {attachmentError && (
+                  <p className="mt-2 text-sm text-destructive">{attachmentError}</p>
+                )}
+              </div>
             </div>
           </div>
         </div>
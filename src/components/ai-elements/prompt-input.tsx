@@ -1,12 +1,21 @@
 'use client';
 
-import { Loader2Icon, SendIcon, SquareIcon, XIcon } from 'lucide-react';
+import {
+  FileTextIcon,
+  Loader2Icon,
+  PaperclipIcon,
+  SendIcon,
+  SquareIcon,
+  XIcon,
+} from 'lucide-react';
 import type {
+  ClipboardEventHandler,
   ComponentProps,
+  DragEventHandler,
   HTMLAttributes,
   KeyboardEventHandler,
 } from 'react';
-import { Children, useCallback, useEffect, useRef } from 'react';
+import { Children, useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -17,7 +26,7 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
-import type { ChatStatus } from 'ai';
+import type { ChatStatus, FileUIPart } from 'ai';
 
 type UseAutoResizeTextareaProps = {
   minHeight: number;
@@ -74,16 +83,106 @@ const useAutoResizeTextarea = ({
   return { textareaRef, adjustHeight };
 };
 
-export type PromptInputProps = HTMLAttributes<HTMLFormElement>;
+export type PromptInputProps = HTMLAttributes<HTMLFormElement> & {
+  // Enables dropping and pasting files into the input
+  onFilesAdded?: (files: File[]) => void;
+};
+
+export const PromptInput = ({
+  className,
+  onFilesAdded,
+  ...props
+}: PromptInputProps) => {
+  const [dragging, setDragging] = useState(false);
+
+  const handleDragOver: DragEventHandler<HTMLFormElement> = (e) => {
+    if (onFilesAdded && e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      setDragging(true);
+    }
+  };
+
+  const handleDrop: DragEventHandler<HTMLFormElement> = (e) => {
+    setDragging(false);
+    if (onFilesAdded && e.dataTransfer.files.length > 0) {
+      e.preventDefault();
+      onFilesAdded(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handlePaste: ClipboardEventHandler<HTMLFormElement> = (e) => {
+    const files = Array.from(e.clipboardData.files);
+    if (onFilesAdded && files.length > 0) {
+      e.preventDefault();
+      onFilesAdded(files);
+    }
+  };
+
+  return (
+    <form
+      className={cn(
+        'w-full divide-y overflow-hidden rounded-xl border bg-background shadow-sm',
+        dragging && 'border-primary ring-2 ring-primary/20',
+        className,
+      )}
+      onDragLeave={() => setDragging(false)}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+      {...props}
+    />
+  );
+};
+
+export type PromptInputAttachmentsProps = HTMLAttributes<HTMLDivElement>;
+
+export const PromptInputAttachments = ({
+  className,
+  ...props
+}: PromptInputAttachmentsProps) => (
+  <div className={cn('flex flex-wrap gap-2 p-3', className)} {...props} />
+);
+
+export type PromptInputAttachmentProps = HTMLAttributes<HTMLDivElement> & {
+  attachment: FileUIPart;
+  onRemove?: () => void;
+};
 
-export const PromptInput = ({ className, ...props }: PromptInputProps) => (
-  <form
+export const PromptInputAttachment = ({
+  attachment,
+  onRemove,
+  className,
+  ...props
+}: PromptInputAttachmentProps) => (
+  <div
     className={cn(
-      'w-full divide-y overflow-hidden rounded-xl border bg-background shadow-sm',
+      'group relative flex h-14 max-w-48 items-center gap-2 rounded-md border bg-muted/50 p-1 pr-7 text-xs',
       className,
     )}
     {...props}
-  />
+  >
+    {attachment.mediaType.startsWith('image/') ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        alt={attachment.filename ?? 'Attachment'}
+        className="size-12 rounded object-cover"
+        src={attachment.url}
+      />
+    ) : (
+      <FileTextIcon className="size-6 shrink-0 text-muted-foreground" />
+    )}
+    <span className="truncate">{attachment.filename}</span>
+    {onRemove && (
+      <button
+        aria-label="Remove attachment"
+        className="absolute top-1 right-1 rounded-full p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+        onClick={onRemove}
+        type="button"
+      >
+        <XIcon className="size-3" />
+      </button>
+    )}
+  </div>
 );
 
 export type PromptInputTextareaProps = ComponentProps<typeof Textarea> & {
@@ -196,6 +295,48 @@ export const PromptInputButton = ({
   );
 };
 
+export type PromptInputAttachButtonProps = Omit<
+  PromptInputButtonProps,
+  'onClick'
+> & {
+  // Comma-separated media types offered by the file picker
+  accept?: string;
+  onFilesAdded: (files: File[]) => void;
+};
+
+export const PromptInputAttachButton = ({
+  accept,
+  onFilesAdded,
+  children,
+  ...props
+}: PromptInputAttachButtonProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <PromptInputButton
+        aria-label="Attach files"
+        onClick={() => inputRef.current?.click()}
+        {...props}
+      >
+        {children ?? <PaperclipIcon className="size-4" />}
+      </PromptInputButton>
+      <input
+        accept={accept}
+        className="hidden"
+        multiple
+        onChange={(e) => {
+          onFilesAdded(Array.from(e.currentTarget.files ?? []));
+          // Allows picking the same file again after removing it
+          e.currentTarget.value = '';
+        }}
+        ref={inputRef}
+        type="file"
+      />
+    </>
+  );
+};
+
 export type PromptInputSubmitProps = ComponentProps<typeof Button> & {
   status?: ChatStatus;
 };
@@ -6,7 +6,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-// Icons removed - not used in current implementation
+import { BrainIcon, ChevronDownIcon } from 'lucide-react';
 import type { ComponentProps } from 'react';
 import { createContext, memo, useContext, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
@@ -120,7 +120,14 @@ export const ReasoningTrigger = memo(
     children,
     ...props
   }: ReasoningTriggerProps) => {
-    const { } = useReasoning();
+    const { isStreaming, isOpen, duration } = useReasoning();
+
+    let label = 'Reasoning';
+    if (isStreaming) {
+      label = 'Thinking...';
+    } else if (duration > 0) {
+      label = `Thought for ${duration} ${duration === 1 ? 'second' : 'seconds'}`;
+    }
 
     return (
       <CollapsibleTrigger
@@ -130,7 +137,18 @@ export const ReasoningTrigger = memo(
         )}
         {...props}
       >
-        {children}
+        {children ?? (
+          <>
+            <BrainIcon className="size-4" />
+            <p>{label}</p>
+            <ChevronDownIcon
+              className={cn(
+                'size-4 text-muted-foreground transition-transform',
+                isOpen ? 'rotate-180' : 'rotate-0',
+              )}
+            />
+          </>
+        )}
       </CollapsibleTrigger>
     );
   },
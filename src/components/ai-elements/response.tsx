@@ -306,13 +306,17 @@ const ResponseComponent = memo(
         {...props}
       >
         <HardenedMarkdown
-          components={components}
-          rehypePlugins={[rehypeKatex]}
-          remarkPlugins={[remarkGfm, remarkMath]}
           allowedImagePrefixes={allowedImagePrefixes ?? ['*']}
           allowedLinkPrefixes={allowedLinkPrefixes ?? ['*']}
           defaultOrigin={defaultOrigin}
           {...options}
+          components={{ ...components, ...options?.components }}
+          rehypePlugins={[rehypeKatex, ...(options?.rehypePlugins ?? [])]}
+          remarkPlugins={[
+            remarkGfm,
+            remarkMath,
+            ...(options?.remarkPlugins ?? []),
+          ]}
         >
           {parsedChildren}
         </HardenedMarkdown>
@@ -0,0 +1,40 @@
+'use client';
+
+import { AlertCircleIcon, RefreshCcwIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { parseApiError } from '@/lib/api-errors';
+
+export type ChatErrorProps = {
+  error: Error;
+  onRetry: () => void;
+};
+
+// Shown below the conversation when a response fails or the connection drops
+export const ChatError = ({ error, onRetry }: ChatErrorProps) => {
+  const apiError = parseApiError(error);
+  // fetch rejects with a TypeError when the network goes away
+  const message =
+    apiError?.message ??
+    (error instanceof TypeError ? 'The connection was lost.' : error.message);
+
+  return (
+    <div
+      className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/5 px-4 py-3 text-sm"
+      role="alert"
+    >
+      <AlertCircleIcon className="size-4 shrink-0 text-destructive" />
+      <div className="min-w-0 flex-1">
+        <p className="text-foreground">{message}</p>
+        {apiError?.requestId && (
+          <p className="text-muted-foreground text-xs">
+            Request ID: {apiError.requestId}
+          </p>
+        )}
+      </div>
+      <Button onClick={onRetry} size="sm" variant="outline">
+        <RefreshCcwIcon className="size-4" />
+        Retry
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+'use client';
+
+import { BookIcon, FileTextIcon, PencilIcon } from 'lucide-react';
+import { useState } from 'react';
+import { Action, Actions } from '@/components/ai-elements/actions';
+import { CustomImage } from '@/components/ai-elements/image';
+import { Message, MessageContent } from '@/components/ai-elements/message';
+import {
+  Reasoning,
+  ReasoningContent,
+  ReasoningTrigger,
+} from '@/components/ai-elements/reasoning';
+import { Response } from '@/components/ai-elements/response';
+import { Suggestion, Suggestions } from '@/components/ai-elements/suggestion';
+import {
+  Source,
+  Sources,
+  SourcesContent,
+  SourcesTrigger,
+} from '@/components/ai-elements/source';
+import { CitedResponse } from '@/components/chat/cited-response';
+import { GroundingWarning } from '@/components/chat/grounding-warning';
+import { NoAnswerSuggestions } from '@/components/chat/no-answer-suggestions';
+import { SearchToolCall } from '@/components/chat/search-tool-call';
+import {
+  AssistantMessageActions,
+  getMessageAnchor,
+} from '@/components/chat/message-actions';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { isImageAttachment } from '@/lib/attachments';
+import { getMessageText, type ChatUIMessage } from '@/lib/messages';
+import { getSourceParts, getSourceScore } from '@/lib/sources';
+
+export type ChatMessageProps = {
+  chatId: string;
+  message: ChatUIMessage;
+  // Disables actions while a response is in flight
+  busy?: boolean;
+  // Follow-up questions are only offered on the latest answer
+  latest?: boolean;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
+  // Sends a suggested follow-up question
+  onSuggestion?: (text: string) => void;
+};
+
+export const ChatMessage = ({
+  chatId,
+  message,
+  busy = false,
+  latest = false,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  onSuggestion,
+}: ChatMessageProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const sources = getSourceParts(message);
+  // Reasoning summaries arrive as one or more parts ahead of the answer
+  const reasoningParts = message.parts.filter((part) => part.type === 'reasoning');
+  const reasoningText = reasoningParts
+    .map((part) => part.text)
+    .filter((text) => text.trim())
+    .join('\n\n');
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft?.trim()) {
+      onEdit?.(draft.trim());
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className="scroll-mt-4" id={getMessageAnchor(message.id)}>
+      {message.role === 'assistant' && sources.length > 0 && (
+        <Sources>
+          <SourcesTrigger count={sources.length} />
+          <SourcesContent>
+            {sources.map((source) => {
+              const score = getSourceScore(source);
+
+              return (
+                <Source
+                  key={source.sourceId}
+                  href={source.url}
+                  title={source.title ?? source.url}
+                >
+                  <BookIcon className="h-4 w-4" />
+                  <span className="block font-medium">
+                    {source.title ?? source.url}
+                  </span>
+                  {score !== undefined && (
+                    <span className="text-muted-foreground">
+                      ({score.toFixed(2)})
+                    </span>
+                  )}
+                </Source>
+              );
+            })}
+          </SourcesContent>
+        </Sources>
+      )}
+      {message.role === 'assistant' && reasoningText && (
+        <Reasoning
+          className="w-full"
+          isStreaming={reasoningParts.some((part) => part.state === 'streaming')}
+        >
+          <ReasoningTrigger />
+          <ReasoningContent>{reasoningText}</ReasoningContent>
+        </Reasoning>
+      )}
+      <Message from={message.role}>
+        <MessageContent>
+          {draft !== null ? (
+            <form className="flex min-w-72 flex-col gap-2" onSubmit={handleEditSubmit}>
+              <Textarea
+                autoFocus
+                className="bg-background text-foreground"
+                onChange={(e) => setDraft(e.currentTarget.value)}
+                value={draft}
+              />
+              <div className="flex justify-end gap-2">
+                <Button onClick={() => setDraft(null)} size="sm" type="button" variant="ghost">
+                  Cancel
+                </Button>
+                <Button disabled={!draft.trim()} size="sm" type="submit" variant="secondary">
+                  Send
+                </Button>
+              </div>
+            </form>
+          ) : (
+            message.parts.map((part, i) => {
+              switch (part.type) {
+                case 'text':
+                  return message.role === 'assistant' ? (
+                    <CitedResponse key={`${message.id}-${i}`} sources={sources}>
+                      {part.text}
+                    </CitedResponse>
+                  ) : (
+                    <Response key={`${message.id}-${i}`}>{part.text}</Response>
+                  );
+                case 'file':
+                  return isImageAttachment(part.mediaType) ? (
+                    <div
+                      className="relative my-1 size-48 overflow-hidden rounded-md"
+                      key={`${message.id}-${i}`}
+                    >
+                      <CustomImage alt={part.filename ?? 'Attached image'} src={part.url} />
+                    </div>
+                  ) : (
+                    <a
+                      className="my-1 flex items-center gap-2 text-sm underline-offset-2 hover:underline"
+                      download={part.filename}
+                      href={part.url}
+                      key={`${message.id}-${i}`}
+                    >
+                      <FileTextIcon className="size-4 shrink-0" />
+                      {part.filename ?? 'Attachment'}
+                    </a>
+                  );
+                case 'tool-searchFifaContent':
+                  return <SearchToolCall key={`${message.id}-${i}`} part={part} />;
+                case 'data-grounding':
+                  return <GroundingWarning key={`${message.id}-${i}`} report={part.data} />;
+                case 'data-noAnswer':
+                  // A later search may still have found sources to answer from
+                  return sources.length === 0 ? (
+                    <NoAnswerSuggestions
+                      disabled={busy}
+                      key={`${message.id}-${i}`}
+                      noAnswer={part.data}
+                      onSuggestion={onSuggestion}
+                    />
+                  ) : null;
+                case 'data-followUps':
+                  return latest && onSuggestion ? (
+                    <Suggestions className="mt-2" key={`${message.id}-${i}`}>
+                      {part.data.questions.map((question) => (
+                        <Suggestion
+                          disabled={busy}
+                          key={question}
+                          onClick={onSuggestion}
+                          suggestion={question}
+                        />
+                      ))}
+                    </Suggestions>
+                  ) : null;
+                default:
+                  return null;
+              }
+            })
+          )}
+        </MessageContent>
+      </Message>
+      {message.role === 'assistant' && (
+        <AssistantMessageActions
+          busy={busy}
+          chatId={chatId}
+          message={message}
+          onRegenerate={onRegenerate}
+          onRetry={onRetry}
+        />
+      )}
+      {message.role === 'user' && draft === null && onEdit && (
+        <Actions className="justify-end">
+          <Action
+            disabled={busy}
+            onClick={() => setDraft(getMessageText(message))}
+            tooltip="Edit"
+          >
+            <PencilIcon className="size-4" />
+          </Action>
+        </Actions>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+'use client';
+
+import { MessageSquareIcon, PencilIcon, PlusIcon, TrashIcon } from 'lucide-react';
+import type { HTMLAttributes } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ChatSummary } from '@/lib/chat-store/types';
+import { cn } from '@/lib/utils';
+
+export type ChatSidebarProps = HTMLAttributes<HTMLElement> & {
+  chats: ChatSummary[];
+  activeChatId: string;
+  onSelectChat: (id: string) => void;
+  onNewChat: () => void;
+  onRenameChat: (id: string, title: string) => void;
+  onDeleteChat: (id: string) => void;
+};
+
+export const ChatSidebar = ({
+  chats,
+  activeChatId,
+  onSelectChat,
+  onNewChat,
+  onRenameChat,
+  onDeleteChat,
+  className,
+  ...props
+}: ChatSidebarProps) => {
+  const handleRename = (chat: ChatSummary) => {
+    const title = window.prompt('Rename conversation', chat.title)?.trim();
+    if (title && title !== chat.title) {
+      onRenameChat(chat.id, title);
+    }
+  };
+
+  const handleDelete = (chat: ChatSummary) => {
+    if (window.confirm(`Delete "${chat.title}"?`)) {
+      onDeleteChat(chat.id);
+    }
+  };
+
+  return (
+    <aside
+      className={cn(
+        'flex flex-col overflow-hidden rounded-xl border border-border bg-card shadow-lg',
+        className,
+      )}
+      {...props}
+    >
+      <div className="flex-shrink-0 border-b border-border p-3">
+        <Button className="w-full" onClick={onNewChat} variant="outline">
+          <PlusIcon className="size-4" />
+          New chat
+        </Button>
+      </div>
+      <ScrollArea className="min-h-0 flex-1">
+        <nav className="flex flex-col gap-1 p-2">
+          {chats.length === 0 && (
+            <p className="px-2 py-4 text-center text-muted-foreground text-sm">
+              No saved conversations yet.
+            </p>
+          )}
+          {chats.map((chat) => (
+            <div
+              className={cn(
+                'group/chat flex items-center gap-1 rounded-lg pr-1 transition-colors hover:bg-accent',
+                chat.id === activeChatId && 'bg-accent',
+              )}
+              key={chat.id}
+            >
+              <button
+                className="flex min-w-0 flex-1 items-center gap-2 px-2 py-2 text-left text-sm"
+                onClick={() => onSelectChat(chat.id)}
+                type="button"
+              >
+                <MessageSquareIcon className="size-4 shrink-0 text-muted-foreground" />
+                <span className="truncate">{chat.title}</span>
+              </button>
+              <Button
+                aria-label="Rename conversation"
+                className="size-7 opacity-0 group-hover/chat:opacity-100"
+                onClick={() => handleRename(chat)}
+                size="icon"
+                variant="ghost"
+              >
+                <PencilIcon className="size-3.5" />
+              </Button>
+              <Button
+                aria-label="Delete conversation"
+                className="size-7 opacity-0 group-hover/chat:opacity-100"
+                onClick={() => handleDelete(chat)}
+                size="icon"
+                variant="ghost"
+              >
+                <TrashIcon className="size-3.5" />
+              </Button>
+            </div>
+          ))}
+        </nav>
+      </ScrollArea>
+    </aside>
+  );
+};
@@ -0,0 +1,123 @@
+'use client';
+
+import type { SourceUrlUIPart } from 'ai';
+import type { ComponentProps } from 'react';
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from '@/components/ai-elements/inline-citation';
+import { Response } from '@/components/ai-elements/response';
+import { findSourceByNumber, getSourceExcerpt } from '@/lib/sources';
+
+const CITATION_PATTERN = /\[Source (\d+)\]/g;
+
+// Minimal hast shape touched by the citation plugin
+type HastNode = {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+};
+
+const splitCitations = (text: HastNode): HastNode[] => {
+  const value = text.value ?? '';
+  const nodes: HastNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push({ type: 'text', value: value.slice(lastIndex, index) });
+    }
+    nodes.push({
+      type: 'element',
+      tagName: 'cite',
+      properties: { dataSourceNumber: match[1] },
+      children: [{ type: 'text', value: match[0] }],
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex === 0) {
+    return [text];
+  }
+  if (lastIndex < value.length) {
+    nodes.push({ type: 'text', value: value.slice(lastIndex) });
+  }
+  return nodes;
+};
+
+/**
+ * Rehype plugin that wraps "[Source N]" markers in <cite> elements so they
+ * can be rendered as citation hover cards.
+ */
+const rehypeSourceCitations = () => (tree: HastNode) => {
+  const visit = (node: HastNode) => {
+    if (!node.children || node.tagName === 'code') {
+      return;
+    }
+    node.children = node.children.flatMap((child) =>
+      child.type === 'text' ? splitCitations(child) : [child]
+    );
+    node.children.forEach(visit);
+  };
+  visit(tree);
+};
+
+type SourceCitationProps = ComponentProps<'cite'> & {
+  sources: SourceUrlUIPart[];
+  'data-source-number'?: string;
+};
+
+const SourceCitation = ({
+  sources,
+  children,
+  'data-source-number': sourceNumber,
+}: SourceCitationProps) => {
+  const source = findSourceByNumber(sources, Number(sourceNumber));
+
+  if (!source) {
+    return <>{children}</>;
+  }
+
+  const excerpt = getSourceExcerpt(source);
+
+  return (
+    <InlineCitation>
+      <InlineCitationCard>
+        <InlineCitationCardTrigger sources={[source.url]} />
+        <InlineCitationCardBody>
+          <div className="space-y-2 p-4">
+            <InlineCitationSource title={source.title} url={source.url} />
+            {excerpt && <InlineCitationQuote>{excerpt}</InlineCitationQuote>}
+          </div>
+        </InlineCitationCardBody>
+      </InlineCitationCard>
+    </InlineCitation>
+  );
+};
+
+export type CitedResponseProps = {
+  sources: SourceUrlUIPart[];
+  children: string;
+};
+
+export const CitedResponse = ({ sources, children }: CitedResponseProps) => (
+  <Response
+    options={{
+      rehypePlugins: [rehypeSourceCitations],
+      components: {
+        cite: (props) => (
+          <SourceCitation sources={sources} {...props} />
+        ),
+      },
+    }}
+  >
+    {children}
+  </Response>
+);
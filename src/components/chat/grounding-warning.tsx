@@ -0,0 +1,50 @@
+'use client';
+
+import { AlertTriangleIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from '@/components/ui/hover-card';
+import type { ChatDataParts } from '@/lib/messages';
+
+export type GroundingWarningProps = {
+  report: ChatDataParts['grounding'];
+};
+
+// Flags answers whose statements could not all be matched to a source
+export const GroundingWarning = ({ report }: GroundingWarningProps) => {
+  const unsupported = report.claims.filter((claim) => !claim.supported);
+
+  if (report.withheld) {
+    return (
+      <p className="text-muted-foreground text-xs">
+        The generated answer was withheld because it could not be verified against FIFA.com content.
+      </p>
+    );
+  }
+
+  if (unsupported.length === 0) {
+    return null;
+  }
+
+  return (
+    <HoverCard closeDelay={0} openDelay={0}>
+      <HoverCardTrigger asChild>
+        <Badge className="cursor-default" variant="outline">
+          <AlertTriangleIcon className="text-amber-500" />
+          {unsupported.length} of {report.claims.length} statements unverified
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-2 text-sm">
+        <p className="font-medium">Not found in the cited FIFA.com sources:</p>
+        <ul className="list-disc space-y-1 pl-4 text-muted-foreground">
+          {unsupported.map((claim, index) => (
+            <li key={index}>{claim.text}</li>
+          ))}
+        </ul>
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
@@ -0,0 +1,150 @@
+'use client';
+
+import {
+  CheckIcon,
+  CopyIcon,
+  LinkIcon,
+  RefreshCcwIcon,
+  RotateCcwIcon,
+  ThumbsDownIcon,
+  ThumbsUpIcon,
+} from 'lucide-react';
+import { useState } from 'react';
+import { Action, Actions } from '@/components/ai-elements/actions';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { FeedbackRating } from '@/lib/feedback-store/types';
+import { getMessageText, type ChatUIMessage } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+
+// How long the "copied" check mark stays visible
+const COPIED_TIMEOUT_MS = 2000;
+
+export const getMessageAnchor = (messageId: string) => `message-${messageId}`;
+
+export type AssistantMessageActionsProps = {
+  chatId: string;
+  message: ChatUIMessage;
+  busy?: boolean;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+};
+
+export const AssistantMessageActions = ({
+  chatId,
+  message,
+  busy = false,
+  onRetry,
+  onRegenerate,
+}: AssistantMessageActionsProps) => {
+  const [copied, setCopied] = useState<'markdown' | 'link' | null>(null);
+  const [pendingRating, setPendingRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [submittedRating, setSubmittedRating] = useState<FeedbackRating | null>(null);
+
+  const copy = async (kind: 'markdown' | 'link', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(kind);
+      setTimeout(() => setCopied(null), COPIED_TIMEOUT_MS);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  const handleCopyLink = () => {
+    const url = new URL(window.location.href);
+    url.search = new URLSearchParams({ chat: chatId }).toString();
+    url.hash = getMessageAnchor(message.id);
+    copy('link', url.toString());
+  };
+
+  const submitFeedback = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingRating) {
+      return;
+    }
+
+    const res = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chatId,
+        messageId: message.id,
+        rating: pendingRating,
+        comment: comment.trim() || undefined,
+      }),
+    });
+
+    if (!res.ok) {
+      console.error('Failed to send feedback:', res.status);
+      return;
+    }
+
+    setSubmittedRating(pendingRating);
+    setPendingRating(null);
+    setComment('');
+  };
+
+  const ratingAction = (rating: FeedbackRating) => {
+    const Icon = rating === 'up' ? ThumbsUpIcon : ThumbsDownIcon;
+    const selected = (submittedRating ?? pendingRating) === rating;
+
+    return (
+      <Action
+        className={cn(selected && 'text-foreground')}
+        disabled={busy || submittedRating !== null}
+        onClick={() => setPendingRating(rating)}
+        tooltip={rating === 'up' ? 'Good answer' : 'Bad answer'}
+      >
+        <Icon className={cn('size-4', selected && 'fill-current')} />
+      </Action>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Actions>
+        <Action
+          onClick={() => copy('markdown', getMessageText(message))}
+          tooltip="Copy as Markdown"
+        >
+          {copied === 'markdown' ? <CheckIcon className="size-4" /> : <CopyIcon className="size-4" />}
+        </Action>
+        {onRetry && (
+          <Action disabled={busy} onClick={onRetry} tooltip="Retry">
+            <RotateCcwIcon className="size-4" />
+          </Action>
+        )}
+        {onRegenerate && (
+          <Action disabled={busy} onClick={onRegenerate} tooltip="Regenerate as new branch">
+            <RefreshCcwIcon className="size-4" />
+          </Action>
+        )}
+        {ratingAction('up')}
+        {ratingAction('down')}
+        <Action onClick={handleCopyLink} tooltip="Copy link">
+          {copied === 'link' ? <CheckIcon className="size-4" /> : <LinkIcon className="size-4" />}
+        </Action>
+      </Actions>
+      {pendingRating && (
+        <form className="flex max-w-md flex-col gap-2" onSubmit={submitFeedback}>
+          <Textarea
+            autoFocus
+            onChange={(e) => setComment(e.currentTarget.value)}
+            placeholder="Add a comment (optional)"
+            value={comment}
+          />
+          <div className="flex justify-end gap-2">
+            <Button onClick={() => setPendingRating(null)} size="sm" type="button" variant="ghost">
+              Cancel
+            </Button>
+            <Button size="sm" type="submit" variant="secondary">
+              Send feedback
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
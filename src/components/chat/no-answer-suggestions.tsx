@@ -0,0 +1,50 @@
+'use client';
+
+import { ExternalLinkIcon } from 'lucide-react';
+import { Suggestion, Suggestions } from '@/components/ai-elements/suggestion';
+import type { ChatDataParts } from '@/lib/messages';
+
+export type NoAnswerSuggestionsProps = {
+  noAnswer: ChatDataParts['noAnswer'];
+  disabled?: boolean;
+  onSuggestion?: (text: string) => void;
+};
+
+// Next steps offered when the bot could not answer from FIFA.com content
+export const NoAnswerSuggestions = ({
+  noAnswer,
+  disabled = false,
+  onSuggestion,
+}: NoAnswerSuggestionsProps) => (
+  <div className="mt-2 space-y-2">
+    {noAnswer.links.length > 0 && (
+      <ul className="space-y-1 text-sm">
+        {noAnswer.links.map((link) => (
+          <li key={link.url}>
+            <a
+              className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
+              href={link.url}
+              rel="noreferrer"
+              target="_blank"
+            >
+              {link.title}
+              <ExternalLinkIcon className="size-3" />
+            </a>
+          </li>
+        ))}
+      </ul>
+    )}
+    {onSuggestion && noAnswer.followUps.length > 0 && (
+      <Suggestions>
+        {noAnswer.followUps.map((followUp) => (
+          <Suggestion
+            disabled={disabled}
+            key={followUp}
+            onClick={onSuggestion}
+            suggestion={followUp}
+          />
+        ))}
+      </Suggestions>
+    )}
+  </div>
+);
@@ -0,0 +1,58 @@
+'use client';
+
+import {
+  Tool,
+  ToolContent,
+  ToolHeader,
+  ToolInput,
+  ToolOutput,
+} from '@/components/ai-elements/tool';
+import type { ChatUIMessage } from '@/lib/messages';
+import type { SearchToolResult } from '@/lib/rag/search-tool';
+
+type SearchToolPart = Extract<
+  ChatUIMessage['parts'][number],
+  { type: 'tool-searchFifaContent' }
+>;
+
+export type SearchToolCallProps = {
+  part: SearchToolPart;
+};
+
+const SearchResults = ({ result }: { result: SearchToolResult }) =>
+  result.found ? (
+    <ol className="space-y-1 p-3">
+      {result.sources.map((source) => (
+        <li key={source.sourceNumber}>
+          <span className="text-muted-foreground">[{source.sourceNumber}]</span>{' '}
+          <a
+            className="font-medium hover:underline"
+            href={source.url}
+            rel="noreferrer"
+            target="_blank"
+          >
+            {source.title}
+          </a>
+          {source.score !== null && (
+            <span className="text-muted-foreground"> ({source.score.toFixed(2)})</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  ) : (
+    <p className="p-3 text-muted-foreground">No matching FIFA.com content.</p>
+  );
+
+// Shows what the model searched for and which sources came back
+export const SearchToolCall = ({ part }: SearchToolCallProps) => (
+  <Tool>
+    <ToolHeader state={part.state} type={part.type} />
+    <ToolContent>
+      <ToolInput input={part.input} />
+      <ToolOutput
+        errorText={part.errorText}
+        output={part.output && <SearchResults result={part.output} />}
+      />
+    </ToolContent>
+  </Tool>
+);
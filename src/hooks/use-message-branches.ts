@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { ChatUIMessage } from '@/lib/messages';
+
+// Alternate continuations of the conversation after a given parent message
+type BranchPoint = {
+  tails: ChatUIMessage[][];
+  active: number;
+};
+
+export type MessageBranch = {
+  alternatives: ChatUIMessage[];
+  active: number;
+};
+
+const ROOT_PARENT_ID = '__root__';
+
+// Forks are keyed by the message they follow so they survive tail changes
+const parentIdAt = (messages: ChatUIMessage[], index: number) =>
+  index === 0 ? ROOT_PARENT_ID : messages[index - 1].id;
+
+/**
+ * Keeps alternate conversation tails (regenerated answers, edited prompts)
+ * on top of the linear message list owned by useChat.
+ */
+export const useMessageBranches = (
+  messages: ChatUIMessage[],
+  setMessages: (messages: ChatUIMessage[]) => void,
+) => {
+  const [branchPoints, setBranchPoints] = useState<Record<string, BranchPoint>>(
+    {},
+  );
+
+  // Saves the current tail from `index` and opens a new, empty alternative
+  const fork = useCallback(
+    (index: number) => {
+      const parentId = parentIdAt(messages, index);
+
+      setBranchPoints((current) => {
+        const point = current[parentId] ?? { tails: [[]], active: 0 };
+        const tails = [...point.tails];
+        tails[point.active] = messages.slice(index);
+
+        return {
+          ...current,
+          [parentId]: { tails: [...tails, []], active: tails.length },
+        };
+      });
+    },
+    [messages],
+  );
+
+  const getBranch = useCallback(
+    (index: number): MessageBranch | null => {
+      const point = branchPoints[parentIdAt(messages, index)];
+      if (!point || point.tails.length < 2) {
+        return null;
+      }
+
+      // The active alternative is always the live message
+      const alternatives = point.tails
+        .map((tail, tailIndex) =>
+          tailIndex === point.active ? messages[index] : tail[0],
+        )
+        .filter((message): message is ChatUIMessage => message !== undefined);
+
+      return alternatives.length > 1
+        ? { alternatives, active: alternatives.indexOf(messages[index]) }
+        : null;
+    },
+    [branchPoints, messages],
+  );
+
+  const selectBranch = useCallback(
+    (index: number, alternative: ChatUIMessage) => {
+      const parentId = parentIdAt(messages, index);
+      const point = branchPoints[parentId];
+      const target = point?.tails.findIndex((tail) => tail[0]?.id === alternative.id);
+
+      if (!point || target === undefined || target < 0 || target === point.active) {
+        return;
+      }
+
+      const tails = [...point.tails];
+      tails[point.active] = messages.slice(index);
+
+      setBranchPoints({ ...branchPoints, [parentId]: { tails, active: target } });
+      setMessages([...messages.slice(0, index), ...tails[target]]);
+    },
+    [branchPoints, messages, setMessages],
+  );
+
+  const resetBranches = useCallback(() => setBranchPoints({}), []);
+
+  return { fork, getBranch, selectBranch, resetBranches };
+};
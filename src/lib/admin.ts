@@ -0,0 +1,35 @@
+import { timingSafeEqual } from 'node:crypto';
+import { apiError } from '@/lib/api-errors';
+
+// ============================================================================
+// ADMIN ENDPOINTS
+// ============================================================================
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Checks the `Authorization: Bearer <ADMIN_TOKEN>` header of an admin request.
+ * Returns the error response to send, or null when the request may proceed.
+ * Admin endpoints answer 404 while ADMIN_TOKEN is unset.
+ */
+export function authorizeAdmin(req: Request): Response | null {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return apiError({ error: 'not_found', message: 'Not found' });
+  }
+
+  const header = req.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!tokensMatch(token, expected)) {
+    return apiError(
+      { error: 'unauthorized', message: 'A valid admin token is required' },
+      { 'WWW-Authenticate': 'Bearer' }
+    );
+  }
+  return null;
+}
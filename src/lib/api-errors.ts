@@ -0,0 +1,74 @@
+import type { z } from 'zod';
+
+// ============================================================================
+// API ERROR RESPONSES
+// ============================================================================
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'not_found'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'internal_error';
+
+export interface ApiErrorIssue {
+  // Dot-separated location in the request body, e.g. "messages.2.parts.0.text"
+  path: string;
+  message: string;
+}
+
+// JSON body of every error response from the chat API
+export interface ApiErrorBody {
+  error: ApiErrorCode;
+  message: string;
+  requestId?: string;
+  // Validation issues with their field paths, for `invalid_request`
+  issues?: ApiErrorIssue[];
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+  payload_too_large: 413,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+};
+
+export function apiError(
+  body: ApiErrorBody,
+  headers?: HeadersInit
+): Response {
+  return Response.json(body, { status: STATUS_BY_CODE[body.error], headers });
+}
+
+// One issue per offending field, including each unknown key
+export function formatRequestIssues(error: z.ZodError): ApiErrorIssue[] {
+  return error.issues.flatMap((issue) => {
+    const paths = issue.code === 'unrecognized_keys'
+      ? issue.keys.map((key) => [...issue.path, key])
+      : [issue.path];
+    const message = issue.code === 'unrecognized_keys' ? 'Unknown field' : issue.message;
+
+    return paths.map((path) => ({ path: path.map(String).join('.'), message }));
+  });
+}
+
+/**
+ * Reads the error body back from an error thrown by the chat transport, whose
+ * message is the raw response text. Returns null for non-API errors, e.g. a
+ * dropped connection.
+ */
+export function parseApiError(error: Error): ApiErrorBody | null {
+  try {
+    const body = JSON.parse(error.message);
+    return typeof body?.error === 'string' && typeof body.message === 'string'
+      ? body
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+import type { FileUIPart, UIMessage } from 'ai';
+
+// Limits shared by the prompt input and the chat route
+export const ATTACHMENT_MAX_FILES = 4;
+export const ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_MEDIA_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+
+export const isImageAttachment = (mediaType: string) =>
+  mediaType.startsWith('image/');
+
+export const getFileParts = (message: UIMessage) =>
+  message.parts.filter((part): part is FileUIPart => part.type === 'file');
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+// Media type and decoded size of a base64 data URL; null for any other URL
+export const parseDataUrl = (url: string) => {
+  const match = url.match(DATA_URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, mediaType, data] = match;
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return { mediaType, size: Math.floor((data.length * 3) / 4) - padding };
+};
+
+// Returns why a file cannot be attached, or null when it can
+export const validateAttachment = ({
+  name,
+  mediaType,
+  size,
+}: {
+  name?: string;
+  mediaType: string;
+  size: number;
+}) => {
+  const label = name ?? 'Attachment';
+
+  if (!ATTACHMENT_MEDIA_TYPES.includes(mediaType)) {
+    return `${label}: only images (PNG, JPEG, WebP, GIF) and PDFs can be attached`;
+  }
+  if (size > ATTACHMENT_MAX_BYTES) {
+    return `${label}: files must be ${ATTACHMENT_MAX_BYTES / 1024 / 1024} MB or smaller`;
+  }
+  return null;
+};
+
+// Reads a picked, dropped or pasted file into a `file` part for sendMessage
+export const readAttachment = (file: File) =>
+  new Promise<FileUIPart>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        type: 'file',
+        mediaType: file.type,
+        filename: file.name,
+        url: reader.result as string,
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
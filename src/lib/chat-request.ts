@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import {
+  ATTACHMENT_MAX_FILES,
+  parseDataUrl,
+  validateAttachment,
+} from '@/lib/attachments';
+import { isValidChatId } from '@/lib/chat-store';
+import type { ChatUIMessage } from '@/lib/messages';
+import { findModel } from '@/lib/models';
+
+// ============================================================================
+// CHAT REQUEST VALIDATION
+// ============================================================================
+
+const DEFAULT_MAX_MESSAGES = 100;
+const DEFAULT_MAX_TEXT_LENGTH = 4000;
+// Characters of everything but attachments across the conversation, search results included
+const DEFAULT_MAX_HISTORY_LENGTH = 500_000;
+// Room for 4 attachments of 5 MB in base64 plus the conversation
+const DEFAULT_MAX_BODY_BYTES = 30 * 1024 * 1024;
+
+// Assistant parts come back from earlier answers, which may be long
+const MAX_ASSISTANT_TEXT_LENGTH = 50_000;
+const MAX_ID_LENGTH = 100;
+// An answer is a few searches with their sources, reasoning, text and data parts
+const MAX_PARTS_PER_MESSAGE = 100;
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+const MAX_MESSAGES = limitFromEnv('CHAT_MAX_MESSAGES', DEFAULT_MAX_MESSAGES);
+const MAX_TEXT_LENGTH = limitFromEnv('CHAT_MAX_TEXT_LENGTH', DEFAULT_MAX_TEXT_LENGTH);
+const MAX_HISTORY_LENGTH = limitFromEnv('CHAT_MAX_HISTORY_LENGTH', DEFAULT_MAX_HISTORY_LENGTH);
+export const MAX_BODY_BYTES = limitFromEnv('CHAT_MAX_BODY_BYTES', DEFAULT_MAX_BODY_BYTES);
+
+const idSchema = z.string().min(1).max(MAX_ID_LENGTH);
+const providerMetadataSchema = z.record(z.string(), z.record(z.string(), z.json())).optional();
+const partStateSchema = z.enum(['streaming', 'done']).optional();
+
+const filePartSchema = z
+  .object({
+    type: z.literal('file'),
+    mediaType: z.string(),
+    filename: z.string().max(255).optional(),
+    url: z.string(),
+    providerMetadata: providerMetadataSchema,
+  })
+  // Only inline files: remote URLs would be fetched by the model provider
+  .superRefine((file, ctx) => {
+    const dataUrl = parseDataUrl(file.url);
+    if (!dataUrl) {
+      ctx.addIssue({ code: 'custom', message: 'Files must be sent as base64 data URLs', path: ['url'] });
+      return;
+    }
+    if (dataUrl.mediaType !== file.mediaType) {
+      ctx.addIssue({ code: 'custom', message: 'The data URL type does not match mediaType', path: ['url'] });
+      return;
+    }
+
+    const error = validateAttachment({
+      name: file.filename,
+      mediaType: file.mediaType,
+      size: dataUrl.size,
+    });
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error, path: ['url'] });
+    }
+  });
+
+const userPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string().max(MAX_TEXT_LENGTH),
+    state: partStateSchema,
+    providerMetadata: providerMetadataSchema,
+  }),
+  filePartSchema,
+], { error: 'User messages may only contain text and file parts' });
+
+const shortTextSchema = z.string().max(2000);
+const shortListSchema = <T extends z.ZodType>(item: T) => z.array(item).max(20);
+
+const searchInputSchema = z.object({ query: z.string().max(500) });
+
+const noAnswerSchema = z.object({
+  intent: z.enum(['greeting', 'off-topic', 'unknown', 'refused']),
+  locale: z.string().max(20),
+  message: shortTextSchema,
+  links: shortListSchema(z.object({ title: shortTextSchema, url: z.string().max(2000) })),
+  followUps: shortListSchema(shortTextSchema),
+});
+
+const searchOutputSchema = z.object({
+  found: z.boolean(),
+  context: z.string().max(MAX_ASSISTANT_TEXT_LENGTH),
+  sources: shortListSchema(z.object({
+    sourceNumber: z.number(),
+    title: shortTextSchema,
+    url: z.string().max(2000),
+    score: z.number().nullable(),
+  })),
+  noAnswer: noAnswerSchema.optional(),
+});
+
+const toolPartBase = {
+  type: z.literal('tool-searchFifaContent'),
+  toolCallId: idSchema,
+  providerExecuted: z.boolean().optional(),
+};
+
+const searchToolPartSchema = z.discriminatedUnion('state', [
+  z.object({
+    ...toolPartBase,
+    state: z.literal('input-streaming'),
+    input: z.union([searchInputSchema.partial(), z.undefined()]),
+  }),
+  z.object({
+    ...toolPartBase,
+    state: z.literal('input-available'),
+    input: searchInputSchema,
+    callProviderMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    ...toolPartBase,
+    state: z.literal('output-available'),
+    input: searchInputSchema,
+    output: searchOutputSchema,
+    callProviderMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    ...toolPartBase,
+    state: z.literal('output-error'),
+    // Failed calls may keep the model's invalid input; it is dropped, rawInput keeps it
+    input: z.union([searchInputSchema, z.undefined()]).catch(undefined),
+    rawInput: z.unknown().optional(),
+    errorText: shortTextSchema,
+    callProviderMetadata: providerMetadataSchema,
+  }),
+]);
+
+// Everything the chat route streams into an answer
+const assistantPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string().max(MAX_ASSISTANT_TEXT_LENGTH),
+    state: partStateSchema,
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('reasoning'),
+    text: z.string().max(MAX_ASSISTANT_TEXT_LENGTH),
+    state: partStateSchema,
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('source-url'),
+    sourceId: idSchema,
+    url: z.string(),
+    title: z.string().optional(),
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({ type: z.literal('step-start') }),
+  searchToolPartSchema,
+  // Data parts are display-only and never reach the model
+  z.object({
+    type: z.literal('data-grounding'),
+    id: idSchema.optional(),
+    data: z.object({
+      status: z.enum(['grounded', 'partial', 'ungrounded']),
+      mode: z.enum(['lexical', 'llm']),
+      claims: z.array(z.object({
+        text: shortTextSchema,
+        supported: z.boolean(),
+        sourceNumber: z.number().optional(),
+      })).max(100),
+      withheld: z.boolean(),
+    }),
+  }),
+  z.object({
+    type: z.literal('data-noAnswer'),
+    id: idSchema.optional(),
+    data: noAnswerSchema,
+  }),
+  z.object({
+    type: z.literal('data-followUps'),
+    id: idSchema.optional(),
+    data: z.object({ questions: shortListSchema(shortTextSchema) }),
+  }),
+], { error: 'Unsupported assistant message part' });
+
+// Attachments are bounded separately, by count and size
+function historyLength(messages: { parts: { type: string }[] }[]): number {
+  return messages.reduce(
+    (total, message) =>
+      total +
+      message.parts
+        .filter((part) => part.type !== 'file')
+        .reduce((sum, part) => sum + JSON.stringify(part).length, 0),
+    0
+  );
+}
+
+const metadataSchema = z.strictObject({ model: z.string().optional() }).optional();
+
+const messageSchema = z.discriminatedUnion('role', [
+  z.strictObject({
+    id: idSchema,
+    role: z.literal('user'),
+    metadata: metadataSchema,
+    parts: z
+      .array(userPartSchema)
+      .min(1)
+      .max(MAX_PARTS_PER_MESSAGE)
+      .refine((parts) => parts.filter((part) => part.type === 'file').length <= ATTACHMENT_MAX_FILES, {
+        message: `At most ${ATTACHMENT_MAX_FILES} files can be attached`,
+      }),
+  }),
+  z.strictObject({
+    id: idSchema,
+    role: z.literal('assistant'),
+    metadata: metadataSchema,
+    parts: z.array(assistantPartSchema).max(MAX_PARTS_PER_MESSAGE),
+  }),
+], { error: 'Messages must have the user or assistant role' }) satisfies z.ZodType<ChatUIMessage>;
+
+/**
+ * Body sent by useChat: the conversation plus the selected model. Unknown
+ * fields, roles and part types are rejected rather than passed to the model.
+ */
+export const chatRequestSchema = z.strictObject({
+  id: z.string().refine(isValidChatId, { message: 'Invalid chat id' }).optional(),
+  messages: z
+    .array(messageSchema)
+    .min(1)
+    .max(MAX_MESSAGES)
+    .refine((messages) => messages[messages.length - 1]?.role === 'user', {
+      message: 'The last message must be a user message',
+    })
+    .refine((messages) => historyLength(messages) <= MAX_HISTORY_LENGTH, {
+      message: `The conversation is too long (over ${MAX_HISTORY_LENGTH} characters); start a new chat`,
+    }),
+  model: z
+    .string()
+    .refine((id) => findModel(id) !== undefined, { message: 'Unknown model' })
+    .optional(),
+  // Sent by the AI SDK transport
+  trigger: z.enum(['submit-message', 'regenerate-message']).optional(),
+  messageId: idSchema.optional(),
+});
+
+// Its messages are ChatUIMessages, which `messageSchema` is checked against
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
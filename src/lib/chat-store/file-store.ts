@@ -0,0 +1,199 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getMessageText, type ChatUIMessage } from '@/lib/messages';
+import type { ChatStore, ChatSummary, StoredChat } from './types';
+
+const DEFAULT_STORE_DIR = '.data/chats';
+const TITLE_MAX_LENGTH = 60;
+
+// Summaries of every chat, so listing never parses full chats and their attachments.
+// The leading dot keeps it out of the chat id space
+const INDEX_FILE = '.index.json';
+
+// Chat ids come from the client, so they must never escape the store directory
+const CHAT_ID_PATTERN = /^[\w-]{1,128}$/;
+
+export function isValidChatId(id: string): boolean {
+  return CHAT_ID_PATTERN.test(id);
+}
+
+// Owner ids stay on disk and are never returned to the client
+interface ChatRecord extends StoredChat {
+  ownerId: string;
+}
+
+interface ChatIndexEntry extends ChatSummary {
+  ownerId: string;
+}
+
+type ChatIndex = Record<string, ChatIndexEntry>;
+
+// Title defaults to the first user message
+function deriveTitle(messages: ChatUIMessage[]): string {
+  const firstUserMessage = messages.find((message) => message.role === 'user');
+  const text = getMessageText(firstUserMessage).replace(/\s+/g, ' ').trim();
+
+  if (!text) {
+    return 'New chat';
+  }
+  return text.length > TITLE_MAX_LENGTH ? `${text.substring(0, TITLE_MAX_LENGTH).trimEnd()}…` : text;
+}
+
+function toSummary({ id, title, createdAt, updatedAt }: ChatSummary): ChatSummary {
+  return { id, title, createdAt, updatedAt };
+}
+
+function toStoredChat(chat: ChatRecord): StoredChat {
+  return { ...toSummary(chat), messages: chat.messages };
+}
+
+async function readJSONFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// File store - one JSON document per chat plus a summary index, for local development
+export function createFileChatStore(
+  rootDir: string = path.resolve(process.cwd(), process.env.CHAT_STORE_DIR || DEFAULT_STORE_DIR)
+): ChatStore {
+  const indexPath = path.join(rootDir, INDEX_FILE);
+  // Writes run one at a time so the index never loses a concurrent update
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const chatPath = (id: string) => {
+    if (!isValidChatId(id)) {
+      throw new Error(`Invalid chat id: ${id}`);
+    }
+    return path.join(rootDir, `${id}.json`);
+  };
+
+  const read = (id: string) => readJSONFile<ChatRecord>(chatPath(id));
+
+  // Write to a temp file first so readers never see a partial document
+  const writeFileAtomic = async (target: string, data: unknown) => {
+    await mkdir(rootDir, { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(data), 'utf8');
+    await rename(temp, target);
+  };
+
+  // Rebuilt from the chat files when missing, e.g. for a store written before the index existed
+  const readIndex = async (): Promise<ChatIndex> => {
+    const index = await readJSONFile<ChatIndex>(indexPath);
+    if (index) {
+      return index;
+    }
+
+    let files: string[];
+    try {
+      files = await readdir(rootDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const chats = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json') && isValidChatId(path.basename(file, '.json')))
+        .map((file) => read(path.basename(file, '.json')))
+    );
+
+    return Object.fromEntries(
+      chats
+        // Chats saved without an owner stay unreachable
+        .filter((chat): chat is ChatRecord => chat !== null && typeof chat.ownerId === 'string')
+        .map((chat) => [chat.id, { ...toSummary(chat), ownerId: chat.ownerId }])
+    );
+  };
+
+  const write = async (chat: ChatRecord): Promise<StoredChat> => {
+    await writeFileAtomic(chatPath(chat.id), chat);
+    const index = await readIndex();
+    await writeFileAtomic(indexPath, { ...index, [chat.id]: { ...toSummary(chat), ownerId: chat.ownerId } });
+    return toStoredChat(chat);
+  };
+
+  const readOwned = async (id: string, ownerId: string): Promise<ChatRecord | null> => {
+    const chat = await read(id);
+    return chat?.ownerId === ownerId ? chat : null;
+  };
+
+  return {
+    async list(ownerId) {
+      const index = await readIndex();
+
+      return Object.values(index)
+        .filter((entry) => entry.ownerId === ownerId)
+        .map(toSummary)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async get(id, ownerId) {
+      const chat = await readOwned(id, ownerId);
+      return chat ? toStoredChat(chat) : null;
+    },
+
+    async canSave(id, ownerId) {
+      const chat = await read(id);
+      return !chat || chat.ownerId === ownerId;
+    },
+
+    saveMessages(id, ownerId, messages) {
+      return exclusive(async () => {
+        const existing = await read(id);
+        if (existing && existing.ownerId !== ownerId) {
+          return null;
+        }
+
+        const now = new Date().toISOString();
+        return write({
+          id,
+          ownerId,
+          title: existing?.title ?? deriveTitle(messages),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+          messages,
+        });
+      });
+    },
+
+    rename(id, ownerId, title) {
+      return exclusive(async () => {
+        const existing = await readOwned(id, ownerId);
+        if (!existing) {
+          return null;
+        }
+        return write({ ...existing, title, updatedAt: new Date().toISOString() });
+      });
+    },
+
+    delete(id, ownerId) {
+      return exclusive(async () => {
+        const existing = await readOwned(id, ownerId);
+        if (!existing) {
+          return false;
+        }
+
+        await rm(chatPath(id));
+        const index = await readIndex();
+        delete index[id];
+        await writeFileAtomic(indexPath, index);
+        return true;
+      });
+    },
+  };
+}
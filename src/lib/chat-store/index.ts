@@ -0,0 +1,24 @@
+import { createFileChatStore } from './file-store';
+import type { ChatStore } from './types';
+
+export type { ChatStore, ChatSummary, StoredChat } from './types';
+export { createFileChatStore, isValidChatId } from './file-store';
+
+let store: ChatStore | null = null;
+
+// Selects the chat storage backend from CHAT_STORE ("file" by default)
+export function getChatStore(): ChatStore {
+  if (!store) {
+    const kind = process.env.CHAT_STORE || 'file';
+
+    switch (kind) {
+      case 'file':
+        store = createFileChatStore();
+        break;
+      default:
+        throw new Error(`Unknown CHAT_STORE: ${kind}`);
+    }
+  }
+
+  return store;
+}
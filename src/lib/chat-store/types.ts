@@ -0,0 +1,32 @@
+import type { ChatUIMessage } from '@/lib/messages';
+
+// ============================================================================
+// CHAT STORAGE TYPES
+// ============================================================================
+
+export interface ChatSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredChat extends ChatSummary {
+  messages: ChatUIMessage[];
+}
+
+/**
+ * Any backend able to persist conversations (file system, SQLite, KV...).
+ * Every chat belongs to the browser session that created it; chats of other
+ * owners read as missing so their ids reveal nothing.
+ */
+export interface ChatStore {
+  list(ownerId: string): Promise<ChatSummary[]>;
+  get(id: string, ownerId: string): Promise<StoredChat | null>;
+  // Whether the id is unused or already belongs to the owner
+  canSave(id: string, ownerId: string): Promise<boolean>;
+  // Creates or replaces the chat; null when the id belongs to another owner
+  saveMessages(id: string, ownerId: string, messages: ChatUIMessage[]): Promise<StoredChat | null>;
+  rename(id: string, ownerId: string, title: string): Promise<StoredChat | null>;
+  delete(id: string, ownerId: string): Promise<boolean>;
+}
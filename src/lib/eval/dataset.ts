@@ -0,0 +1,34 @@
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+
+// One JSONL line; an empty `expected_urls` means the bot should not answer
+const evalCaseSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  expected_urls: z.array(z.string().url()).default([]),
+  reference_answer: z.string().optional(),
+});
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+
+export async function loadEvalDataset(path: string): Promise<EvalCase[]> {
+  const lines = (await readFile(path, 'utf8')).split('\n');
+  const cases: EvalCase[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const parsed = evalCaseSchema.safeParse(JSON.parse(line));
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`${path}:${index + 1}: ${issues}`);
+    }
+    cases.push(parsed.data);
+  });
+
+  return cases;
+}
@@ -0,0 +1,117 @@
+import type { LanguageModel } from 'ai';
+import type { ChatUIMessage } from '@/lib/messages';
+import type { RAGDocument, RetrievalProvider } from '@/lib/rag';
+import { streamRagAnswer } from '@/lib/rag/answer';
+import { screenMessages } from '@/lib/rag/injection';
+import { queryRAGSystem } from '@/lib/rag/search';
+import type { EvalCase } from './dataset';
+import {
+  answerSimilarity,
+  isNoAnswer,
+  recallAtK,
+  scoreCitations,
+} from './metrics';
+
+export { loadEvalDataset, type EvalCase } from './dataset';
+export { createMockAnswerModel } from './mock-model';
+
+// ============================================================================
+// OFFLINE RAG EVALUATION
+// ============================================================================
+
+export interface EvalOptions {
+  model: LanguageModel;
+  provider: RetrievalProvider;
+  // Cut-off for retrieval recall
+  k: number;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  answer: string;
+  // Source URLs in [Source N] order
+  sourceUrls: string[];
+  // Null for cases that expect no answer
+  recall: number | null;
+  citations: { correct: number; total: number };
+  noAnswer: boolean;
+  expectedNoAnswer: boolean;
+  // Null without a reference answer
+  similarity: number | null;
+}
+
+export interface EvalSummary {
+  cases: number;
+  recallAtK: number | null;
+  citationAccuracy: number | null;
+  noAnswerPrecision: number | null;
+  noAnswerRecall: number | null;
+  answerSimilarity: number | null;
+}
+
+/**
+ * Runs one question through the chat route's answer pipeline (system prompt,
+ * searchFifaContent tool, retrieval and context assembly) and scores it.
+ */
+export async function runEvalCase(evalCase: EvalCase, { model, provider, k }: EvalOptions): Promise<EvalCaseResult> {
+  const sources: RAGDocument[] = [];
+  const messages: ChatUIMessage[] = [
+    { id: evalCase.id, role: 'user', parts: [{ type: 'text', text: evalCase.question }] },
+  ];
+
+  const result = streamRagAnswer({
+    model,
+    // Screened as in the chat route; a question stripped to nothing finds no
+    // sources here, so false injection positives show up as mismatches
+    messages: screenMessages(messages, 'strip'),
+    search: (query) => queryRAGSystem(query, provider),
+    onSources: (included) => sources.push(...included.map(({ document }) => document)),
+  });
+  // The result only settles once its stream has been read
+  await result.consumeStream();
+  const answer = await result.text;
+
+  const sourceUrls = sources.map((document) => document.url);
+  const expectedNoAnswer = evalCase.expected_urls.length === 0;
+
+  return {
+    id: evalCase.id,
+    answer,
+    sourceUrls,
+    recall: expectedNoAnswer ? null : recallAtK(sourceUrls, evalCase.expected_urls, k),
+    citations: scoreCitations(answer, sourceUrls, evalCase.expected_urls),
+    noAnswer: isNoAnswer(answer),
+    expectedNoAnswer,
+    similarity: evalCase.reference_answer ? answerSimilarity(answer, evalCase.reference_answer) : null,
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+// Metrics without any applicable case are null rather than 0 or 1
+export function summarizeEval(results: EvalCaseResult[]): EvalSummary {
+  const citations = results.reduce(
+    (totals, result) => ({
+      correct: totals.correct + result.citations.correct,
+      total: totals.total + result.citations.total,
+    }),
+    { correct: 0, total: 0 }
+  );
+  const noAnswers = results.filter((result) => result.noAnswer);
+  const expectedNoAnswers = results.filter((result) => result.expectedNoAnswer);
+
+  return {
+    cases: results.length,
+    recallAtK: mean(results.flatMap((result) => (result.recall === null ? [] : [result.recall]))),
+    citationAccuracy: ratio(citations.correct, citations.total),
+    noAnswerPrecision: ratio(noAnswers.filter((result) => result.expectedNoAnswer).length, noAnswers.length),
+    noAnswerRecall: ratio(expectedNoAnswers.filter((result) => result.noAnswer).length, expectedNoAnswers.length),
+    answerSimilarity: mean(results.flatMap((result) => (result.similarity === null ? [] : [result.similarity]))),
+  };
+}
@@ -0,0 +1,72 @@
+import { isNoAnswerMessage } from '@/lib/rag/no-answer';
+import { tokenize } from '@/lib/rag/text';
+
+// ============================================================================
+// EVALUATION METRICS
+// ============================================================================
+
+const CITATION_PATTERN = /\[Source (\d+)\]/g;
+
+// Compares URLs by host and path, ignoring "www.", trailing slashes, query and hash
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+// Share of expected URLs found among the first k retrieved ones
+export function recallAtK(retrievedUrls: string[], expectedUrls: string[], k: number): number {
+  const topK = new Set(retrievedUrls.slice(0, k).map(normalizeUrl));
+  const hits = expectedUrls.filter((url) => topK.has(normalizeUrl(url))).length;
+  return hits / expectedUrls.length;
+}
+
+/**
+ * Counts [Source N] citations in the answer and how many of them point to an
+ * expected URL. `sourceUrls[0]` is [Source 1]; unknown numbers count as wrong.
+ */
+export function scoreCitations(
+  answer: string,
+  sourceUrls: string[],
+  expectedUrls: string[]
+): { correct: number; total: number } {
+  const expected = new Set(expectedUrls.map(normalizeUrl));
+  const cited = [...answer.matchAll(CITATION_PATTERN)].map((match) => sourceUrls[Number(match[1]) - 1]);
+
+  return {
+    correct: cited.filter((url) => url !== undefined && expected.has(normalizeUrl(url))).length,
+    total: cited.length,
+  };
+}
+
+export function isNoAnswer(answer: string): boolean {
+  return isNoAnswerMessage(answer);
+}
+
+// Token-level F1 between the answer (without citation markers) and the reference
+export function answerSimilarity(answer: string, reference: string): number {
+  const answerTokens = tokenize(answer.replace(CITATION_PATTERN, ''));
+  const referenceCounts = new Map<string, number>();
+  tokenize(reference).forEach((token) => referenceCounts.set(token, (referenceCounts.get(token) ?? 0) + 1));
+
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const count = referenceCounts.get(token) ?? 0;
+    if (count > 0) {
+      overlap++;
+      referenceCounts.set(token, count - 1);
+    }
+  }
+
+  if (overlap === 0) {
+    return 0;
+  }
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / tokenize(reference).length;
+  return (2 * precision * recall) / (precision + recall);
+}
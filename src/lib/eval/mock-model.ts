@@ -0,0 +1,102 @@
+import { simulateReadableStream } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+
+// ============================================================================
+// DETERMINISTIC ANSWER MODEL
+// ============================================================================
+
+type StreamOptions = Parameters<MockLanguageModelV2['doStream']>[0];
+type StreamPart = Awaited<ReturnType<MockLanguageModelV2['doStream']>>['stream'] extends ReadableStream<infer T>
+  ? T
+  : never;
+
+const SOURCE_PATTERN = /^\[Source (\d+)\] [^\n]*\n[\s\S]*?^Content:\n([\s\S]*?)\n<\/document>/gm;
+const NO_ANSWER_PATTERN = /reply with exactly this message: "([^"]+)"/;
+
+// Sentences taken from the top source for the extractive answer
+const ANSWER_SENTENCES = 2;
+
+const USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+function textOf(content: StreamOptions['prompt'][number]['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map((part) => {
+      if (part.type === 'text') {
+        return part.text;
+      }
+      if (part.type === 'tool-result' && part.output.type === 'text') {
+        return part.output.value;
+      }
+      return '';
+    })
+    .join('\n');
+}
+
+// First sentences of the content, skipping markdown headings
+function leadSentences(content: string): string {
+  return content
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('#'))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .slice(0, ANSWER_SENTENCES)
+    .join(' ');
+}
+
+/**
+ * Answers the way its instructions tell it to, without any language
+ * understanding: it searches for the latest user message once, then quotes
+ * the top search result, citing it only if the prompt asks for [Source N]
+ * citations, or gives the no-answer message from an empty search result.
+ * Prompt and retrieval regressions therefore show up in the metrics.
+ */
+export function createMockAnswerModel(): MockLanguageModelV2 {
+  return new MockLanguageModelV2({
+    provider: 'eval',
+    modelId: 'extractive-mock',
+    doStream: async ({ prompt }: StreamOptions) => {
+      const system = prompt.find((message) => message.role === 'system');
+      const systemText = system ? textOf(system.content) : '';
+      const lastMessage = prompt[prompt.length - 1];
+      const chunks: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+      if (lastMessage.role === 'user') {
+        chunks.push(
+          {
+            type: 'tool-call',
+            toolCallId: 'eval-search',
+            toolName: 'searchFifaContent',
+            input: JSON.stringify({ query: textOf(lastMessage.content) }),
+          },
+          { type: 'finish', finishReason: 'tool-calls', usage: USAGE }
+        );
+        return { stream: simulateReadableStream({ chunks }) };
+      }
+
+      const searchResult = textOf(lastMessage.content);
+      const [topSource] = [...searchResult.matchAll(SOURCE_PATTERN)];
+      let answer: string;
+
+      if (topSource) {
+        const citation = systemText.includes('[Source N]') ? ` [Source ${topSource[1]}]` : '';
+        answer = `${leadSentences(topSource[2])}${citation}`;
+      } else {
+        answer = searchResult.match(NO_ANSWER_PATTERN)?.[1] ?? 'No information found.';
+      }
+
+      chunks.push(
+        { type: 'text-start', id: 'answer' },
+        { type: 'text-delta', id: 'answer', delta: answer },
+        { type: 'text-end', id: 'answer' },
+        { type: 'finish', finishReason: 'stop', usage: USAGE }
+      );
+      return { stream: simulateReadableStream({ chunks }) };
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { FeedbackStore } from './types';
+
+const DEFAULT_FEEDBACK_FILE = '.data/feedback.jsonl';
+
+// File store - appends one JSON line per rating, easy to load into notebooks
+export function createFileFeedbackStore(
+  filePath: string = path.resolve(process.cwd(), process.env.FEEDBACK_FILE || DEFAULT_FEEDBACK_FILE)
+): FeedbackStore {
+  return {
+    async add(record) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createFileFeedbackStore } from './file-store';
+import type { FeedbackStore } from './types';
+
+export type {
+  FeedbackRating,
+  FeedbackRecord,
+  FeedbackSource,
+  FeedbackStore,
+} from './types';
+export { createFileFeedbackStore } from './file-store';
+
+let store: FeedbackStore | null = null;
+
+// Selects the feedback storage backend from FEEDBACK_STORE ("file" by default)
+export function getFeedbackStore(): FeedbackStore {
+  if (!store) {
+    const kind = process.env.FEEDBACK_STORE || 'file';
+
+    switch (kind) {
+      case 'file':
+        store = createFileFeedbackStore();
+        break;
+      default:
+        throw new Error(`Unknown FEEDBACK_STORE: ${kind}`);
+    }
+  }
+
+  return store;
+}
@@ -0,0 +1,29 @@
+// ============================================================================
+// FEEDBACK STORAGE TYPES
+// ============================================================================
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackSource {
+  url: string;
+  title?: string;
+  score?: number;
+}
+
+// One rating of an assistant answer, with what is needed to tune the RAG prompts
+export interface FeedbackRecord {
+  id: string;
+  createdAt: string;
+  chatId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  model?: string;
+  question: string;
+  answer: string;
+  sources: FeedbackSource[];
+}
+
+export interface FeedbackStore {
+  add(record: FeedbackRecord): Promise<void>;
+}
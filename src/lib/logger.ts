@@ -0,0 +1,117 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// ============================================================================
+// STRUCTURED LOGGING
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming ids are echoed in headers and logs, so only short plain ones are reused
+const REQUEST_ID_PATTERN = /^[\w-]{8,64}$/;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/g;
+
+function minimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && level in LEVEL_ORDER ? level : 'info';
+}
+
+// User text is redacted unless LOG_REDACT_USER_TEXT=false
+function isRedactionEnabled(): boolean {
+  return process.env.LOG_REDACT_USER_TEXT !== 'false';
+}
+
+/**
+ * Prepares user-provided text for logging: fully redacted by default,
+ * otherwise with e-mail addresses and phone numbers masked.
+ */
+export function redactUserText(text: string): string {
+  if (isRedactionEnabled()) {
+    return `[redacted ${text.length} chars]`;
+  }
+
+  return text.replace(EMAIL_PATTERN, '[email]').replace(PHONE_PATTERN, '[phone]');
+}
+
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return error;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel()]) {
+    return;
+  }
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, serializeError(value)])
+    ),
+  };
+
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) =>
+    write(level, message, { ...bindings, ...fields });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+  };
+}
+
+// Per-request logger, propagated through async calls without threading it manually
+const requestContext = new AsyncLocalStorage<Logger>();
+
+const rootLogger = createLogger();
+
+export function getLogger(): Logger {
+  return requestContext.getStore() ?? rootLogger;
+}
+
+// Reuses a well-formed incoming X-Request-Id (e.g. from a proxy) or generates one
+export function getRequestId(req: Request): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+export function withRequestLogger<T>(requestId: string, callback: () => T): T {
+  return requestContext.run(rootLogger.child({ requestId }), callback);
+}
@@ -0,0 +1,44 @@
+import type { InferUITool, UIMessage } from 'ai';
+import type { GroundingReport } from '@/lib/rag/grounding';
+import type { NoAnswerResponse } from '@/lib/rag/no-answer';
+import type { SearchFifaContentTool } from '@/lib/rag/search-tool';
+
+// Data parts streamed by the chat route alongside the answer
+export type ChatDataParts = {
+  // Claim-level verification of the answer; `withheld` when it was replaced
+  grounding: GroundingReport & { withheld: boolean };
+  // Set when the bot could not answer: reason, localized message and next steps
+  noAnswer: NoAnswerResponse;
+  // Model-generated questions offered after an answer
+  followUps: { questions: string[] };
+};
+
+// Metadata attached to assistant messages by the chat route
+export type ChatMessageMetadata = {
+  model?: string;
+};
+
+// Tools the chat route gives the model, rendered as `tool-<name>` parts
+export type ChatTools = {
+  searchFifaContent: InferUITool<SearchFifaContentTool>;
+};
+
+export type ChatUIMessage = UIMessage<ChatMessageMetadata, ChatDataParts, ChatTools>;
+
+// Type definitions for text message parts
+interface TextMessagePart {
+  type: 'text';
+  text: string;
+}
+
+// Extract text content from a message (UIMessage uses 'parts' format)
+export function getMessageText(message: UIMessage | undefined): string {
+  if (!message?.parts) {
+    return '';
+  }
+
+  return message.parts
+    .filter((part): part is TextMessagePart => part.type === 'text')
+    .map((part) => part.text)
+    .join(' ');
+}
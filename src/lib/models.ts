@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import defaultRegistry from './model-registry.json';
+
+// ============================================================================
+// MODEL REGISTRY
+// ============================================================================
+
+const modelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  provider: z.string(),
+  contextWindow: z.number().int().positive(),
+});
+
+const modelRegistrySchema = z
+  .object({
+    models: z.array(modelSchema).nonempty(),
+    defaults: z.object({
+      rag: z.string(),
+      fallback: z.string(),
+      rewrite: z.string(),
+      grounding: z.string(),
+      suggestions: z.string(),
+    }),
+  })
+  .refine(
+    ({ models, defaults }) =>
+      Object.values(defaults).every((id) => models.some((model) => model.id === id)),
+    { message: 'Every default model must be listed in models', path: ['defaults'] }
+  );
+
+export type ModelDefinition = z.infer<typeof modelSchema>;
+export type ModelRegistry = z.infer<typeof modelRegistrySchema>;
+export type ModelPath = keyof ModelRegistry['defaults'];
+
+let registry: ModelRegistry | null = null;
+
+/**
+ * Loads the registry from CHAT_MODEL_REGISTRY (inline JSON) or the bundled
+ * model-registry.json, then applies CHAT_MODEL_<PATH> default overrides.
+ */
+export function getModelRegistry(): ModelRegistry {
+  if (!registry) {
+    const source = process.env.CHAT_MODEL_REGISTRY
+      ? JSON.parse(process.env.CHAT_MODEL_REGISTRY)
+      : defaultRegistry;
+
+    registry = modelRegistrySchema.parse({
+      ...source,
+      defaults: {
+        ...source.defaults,
+        ...(process.env.CHAT_MODEL_RAG && { rag: process.env.CHAT_MODEL_RAG }),
+        ...(process.env.CHAT_MODEL_FALLBACK && { fallback: process.env.CHAT_MODEL_FALLBACK }),
+        ...(process.env.CHAT_MODEL_REWRITE && { rewrite: process.env.CHAT_MODEL_REWRITE }),
+        ...(process.env.CHAT_MODEL_GROUNDING && { grounding: process.env.CHAT_MODEL_GROUNDING }),
+        ...(process.env.CHAT_MODEL_SUGGESTIONS && { suggestions: process.env.CHAT_MODEL_SUGGESTIONS }),
+      },
+    });
+  }
+
+  return registry;
+}
+
+export function findModel(id: string): ModelDefinition | undefined {
+  return getModelRegistry().models.find((model) => model.id === id);
+}
+
+// Requested model when registered, otherwise the default for the given path
+export function resolveModel(path: ModelPath, requestedId?: string): ModelDefinition {
+  const requested = requestedId ? findModel(requestedId) : undefined;
+  return requested ?? findModel(getModelRegistry().defaults[path])!;
+}
@@ -0,0 +1,70 @@
+import {
+  convertToModelMessages,
+  stepCountIs,
+  streamText,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from 'ai';
+import type { ChatUIMessage } from '@/lib/messages';
+import { buildSystemPrompt } from './prompt';
+import { queryRAGSystem } from './search';
+import { createSearchFifaContentTool, type SearchToolOptions } from './search-tool';
+
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+// Upper bound on model steps per answer, i.e. searches plus the final reply
+function maxToolSteps(): number {
+  const steps = Number(process.env.RAG_MAX_TOOL_STEPS);
+  return Number.isInteger(steps) && steps > 0 ? steps : DEFAULT_MAX_TOOL_STEPS;
+}
+
+export interface RagAnswerOptions {
+  model: LanguageModel;
+  messages: ChatUIMessage[];
+  search?: SearchToolOptions['search'];
+  locale?: SearchToolOptions['locale'];
+  onSources?: SearchToolOptions['onSources'];
+  onNoAnswer?: SearchToolOptions['onNoAnswer'];
+  // Receives the tokens the default search spends on query variants
+  onSearchUsage?: (usage: LanguageModelUsage) => void;
+  providerOptions?: Parameters<typeof streamText>[0]['providerOptions'];
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Streams an answer from the model with the searchFifaContent tool. Shared by
+ * the chat route and the offline evaluation so both exercise the same prompt
+ * and retrieval pipeline.
+ */
+export function streamRagAnswer({
+  model,
+  messages,
+  search,
+  locale,
+  onSources,
+  onNoAnswer,
+  onSearchUsage,
+  providerOptions,
+  abortSignal,
+}: RagAnswerOptions) {
+  const searchFifaContent = createSearchFifaContentTool({
+    search: search ?? ((query, signal) => queryRAGSystem(query, undefined, signal, onSearchUsage)),
+    locale,
+    onSources,
+    onNoAnswer,
+  });
+  const tools = { searchFifaContent };
+
+  return streamText({
+    model,
+    system: buildSystemPrompt(),
+    messages: convertToModelMessages(messages, {
+      tools,
+      ignoreIncompleteToolCalls: true,
+    }),
+    tools,
+    stopWhen: stepCountIs(maxToolSteps()),
+    providerOptions,
+    abortSignal,
+  });
+}
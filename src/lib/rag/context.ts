@@ -0,0 +1,168 @@
+import { estimateTokens, tokenize, truncateToTokens } from './text';
+import type { RAGDocument } from './types';
+
+// ============================================================================
+// TOKEN-BUDGETED CONTEXT ASSEMBLY
+// ============================================================================
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_MAX_DOCUMENT_TOKENS = 800;
+
+// Below this many tokens of room a document is dropped rather than excerpted
+const MIN_DOCUMENT_TOKENS = 50;
+
+const SOURCE_SEPARATOR = '\n\n';
+
+export interface ContextBudget {
+  totalTokens: number;
+  maxDocumentTokens: number;
+}
+
+export interface ContextDocument {
+  document: RAGDocument;
+  // Content actually placed in the prompt (possibly excerpted)
+  content: string;
+  truncated: boolean;
+}
+
+export interface AssembledContext {
+  text: string;
+  tokens: number;
+  // Numbered in order: included[0] is [Source firstSourceNumber]
+  included: ContextDocument[];
+  dropped: RAGDocument[];
+}
+
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function getContextBudget(): ContextBudget {
+  return {
+    totalTokens: positiveIntegerEnv('RAG_CONTEXT_TOKEN_BUDGET', DEFAULT_TOKEN_BUDGET),
+    maxDocumentTokens: positiveIntegerEnv('RAG_CONTEXT_MAX_DOC_TOKENS', DEFAULT_MAX_DOCUMENT_TOKENS),
+  };
+}
+
+// Retrieved text cannot open or close a <document> block or fake another tag
+function escapeContent(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Wraps a document in a delimited block the system prompt marks as data, so
+ * its text is quoted rather than followed. Every field is escaped, as any of
+ * them could otherwise close the block.
+ */
+export function formatSource(sourceNumber: number, document: RAGDocument, content: string): string {
+  return `<document source="${sourceNumber}">
+[Source ${sourceNumber}] ${escapeContent(document.title)}
+URL: ${escapeContent(document.url)}
+Last indexed: ${escapeContent(document.fetched_at)}
+Content:
+${escapeContent(content)}
+</document>`;
+}
+
+// Paragraphs, with long paragraphs further split into sentences
+function splitPassages(content: string, maxTokens: number): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      estimateTokens(paragraph) > maxTokens
+        ? paragraph.split(/(?<=[.!?])\s+/)
+        : [paragraph]
+    );
+}
+
+/**
+ * Keeps the passages sharing the most terms with the query, in their original
+ * order, until the token limit is reached.
+ */
+export function excerptRelevantPassages(
+  content: string,
+  query: string,
+  maxTokens: number
+): { content: string; truncated: boolean } {
+  if (estimateTokens(content) <= maxTokens) {
+    return { content, truncated: false };
+  }
+
+  const queryTerms = new Set(tokenize(query));
+  const passages = splitPassages(content, maxTokens).map((text, position) => ({
+    text,
+    position,
+    relevance: tokenize(text).filter((term) => queryTerms.has(term)).length,
+  }));
+
+  const selected: typeof passages = [];
+  let used = 0;
+
+  for (const passage of [...passages].sort((a, b) => b.relevance - a.relevance || a.position - b.position)) {
+    const tokens = estimateTokens(passage.text);
+    if (used + tokens <= maxTokens) {
+      selected.push(passage);
+      used += tokens;
+    }
+  }
+
+  if (selected.length === 0) {
+    return { content: truncateToTokens(passages[0]?.text ?? content, maxTokens), truncated: true };
+  }
+
+  return {
+    content: selected
+      .sort((a, b) => a.position - b.position)
+      .map((passage) => passage.text)
+      .join(' … '),
+    truncated: true,
+  };
+}
+
+/**
+ * Builds the numbered retrieved-context block for the model. Documents are
+ * taken by descending score and excerpted to fit the budget; the top
+ * document is always included so a non-empty retrieval never yields an
+ * empty context.
+ */
+export function buildContextFromSources(
+  documents: RAGDocument[],
+  query: string,
+  budget: ContextBudget = getContextBudget(),
+  firstSourceNumber = 1
+): AssembledContext {
+  const ranked = [...documents].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const included: ContextDocument[] = [];
+  const dropped: RAGDocument[] = [];
+  const parts: string[] = [];
+  let remaining = budget.totalTokens;
+
+  for (const document of ranked) {
+    const sourceNumber = firstSourceNumber + included.length;
+    const overhead = estimateTokens(formatSource(sourceNumber, document, '') + SOURCE_SEPARATOR);
+    const available = Math.min(budget.maxDocumentTokens, remaining - overhead);
+
+    if (available < MIN_DOCUMENT_TOKENS && included.length > 0) {
+      dropped.push(document);
+      continue;
+    }
+
+    const excerpt = excerptRelevantPassages(
+      document.content,
+      query,
+      Math.max(available, MIN_DOCUMENT_TOKENS)
+    );
+    const part = formatSource(sourceNumber, document, excerpt.content);
+
+    included.push({ document, ...excerpt });
+    parts.push(part);
+    remaining -= estimateTokens(part + SOURCE_SEPARATOR);
+  }
+
+  const text = parts.join(SOURCE_SEPARATOR);
+
+  return { text, tokens: estimateTokens(text), included, dropped };
+}
@@ -0,0 +1,204 @@
+import { getLogger } from '@/lib/logger';
+
+// ============================================================================
+// RESILIENT HTTP CLIENT
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BREAKER_THRESHOLD = 5;
+const DEFAULT_BREAKER_RESET_MS = 30_000;
+
+// Backoff before retry n is a random delay up to RETRY_BASE_MS * 2^n, capped
+const RETRY_BASE_MS = 200;
+const RETRY_MAX_DELAY_MS = 2000;
+
+export interface ResilienceConfig {
+  // Per attempt, not per request
+  timeoutMs: number;
+  retries: number;
+  // Consecutive failures that open the circuit
+  breakerThreshold: number;
+  // How long the circuit stays open before a trial request
+  breakerResetMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  // Whether a request may go out now; claims the trial request when half-open
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  // Gives back a claimed trial request without a verdict, e.g. when the caller aborts
+  release(): void;
+}
+
+function positiveNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getResilienceConfig(): ResilienceConfig {
+  const retries = Number(process.env.RAG_RETRIES);
+
+  return {
+    timeoutMs: positiveNumberEnv('RAG_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+    breakerThreshold: positiveNumberEnv('RAG_BREAKER_THRESHOLD', DEFAULT_BREAKER_THRESHOLD),
+    breakerResetMs: positiveNumberEnv('RAG_BREAKER_RESET_MS', DEFAULT_BREAKER_RESET_MS),
+  };
+}
+
+/**
+ * Opens after `breakerThreshold` consecutive failures so callers fail fast,
+ * then lets one trial request through after `breakerResetMs` to probe for
+ * recovery.
+ */
+export function createCircuitBreaker(
+  name: string,
+  { breakerThreshold, breakerResetMs }: Pick<ResilienceConfig, 'breakerThreshold' | 'breakerResetMs'>,
+  now: () => number = Date.now
+): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) {
+      return 'closed';
+    }
+    return now() - openedAt >= breakerResetMs ? 'half-open' : 'open';
+  };
+
+  return {
+    state,
+
+    tryAcquire() {
+      switch (state()) {
+        case 'closed':
+          return true;
+        case 'open':
+          return false;
+        case 'half-open':
+          if (trialInFlight) {
+            return false;
+          }
+          trialInFlight = true;
+          return true;
+      }
+    },
+
+    recordSuccess() {
+      if (openedAt !== null) {
+        getLogger().info('http.circuit.closed', { name });
+      }
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures += 1;
+      // A failed trial re-opens the circuit for another reset period
+      if (trialInFlight || (openedAt === null && failures >= breakerThreshold)) {
+        getLogger().warn('http.circuit.opened', { name, failures });
+        openedAt = now();
+      }
+      trialInFlight = false;
+    },
+
+    release() {
+      trialInFlight = false;
+    },
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryDelay(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+/**
+ * fetch with a timeout per attempt and jittered retries on network errors,
+ * timeouts and 5xx/429 responses. The circuit breaker fails the call fast
+ * while the backend is unhealthy and counts each call once, whatever its
+ * retries; `init.signal` cancels it at any point.
+ */
+export async function resilientFetch(
+  url: string,
+  init: RequestInit,
+  breaker: CircuitBreaker,
+  { timeoutMs, retries }: Pick<ResilienceConfig, 'timeoutMs' | 'retries'>
+): Promise<Response> {
+  if (!breaker.tryAcquire()) {
+    throw new Error(`Circuit open for ${url}`);
+  }
+
+  const logger = getLogger();
+  const callerSignal = init.signal ?? undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const signals = [AbortSignal.timeout(timeoutMs), ...(callerSignal ? [callerSignal] : [])];
+    let response: Response | undefined;
+    let failure: unknown;
+
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.any(signals) });
+      if (!isRetryableStatus(response.status)) {
+        // 4xx responses mean a bad request, not an unhealthy backend
+        breaker.recordSuccess();
+        return response;
+      }
+      failure = new Error(`HTTP ${response.status} ${response.statusText}`);
+    } catch (error) {
+      // The caller gave up; that says nothing about the backend
+      if (callerSignal?.aborted) {
+        breaker.release();
+        throw error;
+      }
+      failure = error;
+    }
+
+    if (attempt >= retries) {
+      breaker.recordFailure();
+      if (response) {
+        return response;
+      }
+      throw failure;
+    }
+
+    await response?.body?.cancel();
+    logger.warn('http.request.retrying', { url, attempt: attempt + 1, error: failure });
+
+    try {
+      await sleep(retryDelay(attempt), callerSignal);
+    } catch (error) {
+      breaker.release();
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { createLocalRetrievalProvider } from './local-provider';
+import { createRemoteRetrievalProvider } from './remote-provider';
+import type { RetrievalProvider } from './types';
+
+export type {
+  RAGDocument,
+  RAGResponse,
+  RetrievalProvider,
+  RetrievalSearchOptions,
+} from './types';
+export { createLocalRetrievalProvider } from './local-provider';
+export { createRemoteRetrievalProvider } from './remote-provider';
+
+let provider: RetrievalProvider | null = null;
+
+// Selects the retrieval backend from RAG_PROVIDER ("remote" by default, or "local")
+export function getRetrievalProvider(): RetrievalProvider {
+  if (!provider) {
+    const kind = process.env.RAG_PROVIDER || 'remote';
+
+    switch (kind) {
+      case 'local':
+        provider = createLocalRetrievalProvider();
+        break;
+      case 'remote':
+        provider = createRemoteRetrievalProvider();
+        break;
+      default:
+        throw new Error(`Unknown RAG_PROVIDER: ${kind}`);
+    }
+  }
+
+  return provider;
+}
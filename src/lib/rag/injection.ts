@@ -0,0 +1,110 @@
+import { isToolUIPart } from 'ai';
+import { getLogger } from '@/lib/logger';
+import type { ChatUIMessage } from '@/lib/messages';
+import { foldText } from './text';
+import type { RAGDocument } from './types';
+
+// ============================================================================
+// PROMPT-INJECTION SCREENING
+// ============================================================================
+
+// strip: remove flagged sentences; warn: log only; refuse: drop the document or refuse the question
+export type InjectionAction = 'strip' | 'warn' | 'refuse';
+
+// Matched against accent-folded, lowercased sentences
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override|bypass)\b.{0,30}\b(all|any|previous|prior|above|earlier|your|system|these|those)\b.{0,20}\b(instructions?|rules|guidelines|prompts?|directives)\b/,
+  /\b(new|updated|real) (system )?(instructions?|prompt)\s*:/,
+  // Role changes addressed to the assistant, not e.g. "you are no longer the ticket holder"
+  /\byou are now (a|an|my)\b|\byou are no longer (bound|restricted|limited|an? (ai|assistant|chatbot))\b|\bfrom now on,? you (are|will|must|should)\b|\bpretend (to be|you are)\b/,
+  /\b(reveal|show|print|repeat|output|leak)\b.{0,30}\b(system prompt|your (instructions|prompt|rules)|hidden prompt)\b/,
+  /\b(developer|debug|god|jailbreak) mode\b|\bjailbreak\b/,
+  /<\/?\s*(system|assistant|user|instructions?)\s*>|<\|im_(start|end)\|>|\[\/?(inst|sys)\]/,
+  /\b(ignora|olvida|omite|salta)\b.{0,30}\b(instrucciones|reglas|indicaciones)\b/,
+  /\bahora eres (un|una|mi)\b|\ba partir de ahora,? (eres|actua|responde)\b|\bfinge (ser|que eres)\b/,
+  /\b(muestra|revela|repite)\b.{0,30}\b(prompt del sistema|tus instrucciones|tus reglas)\b/,
+];
+
+export function getInjectionAction(): InjectionAction {
+  const action = process.env.RAG_INJECTION_ACTION || 'strip';
+
+  if (action !== 'strip' && action !== 'warn' && action !== 'refuse') {
+    throw new Error(`Unknown RAG_INJECTION_ACTION: ${action}`);
+  }
+  return action;
+}
+
+function splitSentences(line: string): string[] {
+  return line.split(/(?<=[.!?])\s+/);
+}
+
+function isInstructionLike(sentence: string): boolean {
+  const folded = foldText(sentence);
+  return INJECTION_PATTERNS.some((pattern) => pattern.test(folded));
+}
+
+// Sentences that read as instructions to the model rather than content or questions
+export function detectInjection(text: string): string[] {
+  return text.split('\n').flatMap(splitSentences).filter(isInstructionLike);
+}
+
+export function stripInjection(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => splitSentences(line).filter((sentence) => !isInstructionLike(sentence)).join(' '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Screens retrieved documents before they reach the model: flagged content is
+ * stripped, kept with a warning, or the document is dropped.
+ */
+export function screenDocuments(
+  documents: RAGDocument[],
+  action: InjectionAction = getInjectionAction()
+): RAGDocument[] {
+  const logger = getLogger();
+
+  return documents.flatMap((document) => {
+    const matches = detectInjection(`${document.title}\n${document.content}`);
+    if (matches.length === 0) {
+      return [document];
+    }
+
+    logger.warn('rag.injection.detected', { target: 'document', url: document.url, matches: matches.length, action });
+
+    switch (action) {
+      case 'strip':
+        return [{ ...document, title: stripInjection(document.title), content: stripInjection(document.content) }];
+      case 'warn':
+        return [document];
+      case 'refuse':
+        return [];
+    }
+  });
+}
+
+/**
+ * Prepares the client-supplied history for the model. The client can rewrite
+ * any earlier turn, so past search results are dropped rather than trusted as
+ * retrieval output (the model searches again when it needs them), and unless
+ * the action is "warn", instruction-like sentences are stripped from user and
+ * assistant text alike.
+ */
+export function screenMessages(
+  messages: ChatUIMessage[],
+  action: InjectionAction = getInjectionAction()
+): ChatUIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts
+      .filter((part) => !isToolUIPart(part))
+      .map((part) =>
+        action !== 'warn' && (part.type === 'text' || part.type === 'reasoning')
+          ? { ...part, text: stripInjection(part.text) }
+          : part
+      ),
+  }));
+}
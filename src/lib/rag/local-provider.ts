@@ -0,0 +1,199 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { RAGDocument, RetrievalProvider } from './types';
+import { tokenize } from './text';
+import { resolveCanonicalUrl } from './url-resolver';
+
+const DEFAULT_LOCAL_DIR = 'data/rag';
+
+// BM25 tuning constants (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedDocument {
+  document: RAGDocument;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface LocalIndex {
+  entries: IndexedDocument[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+// Shape accepted for JSON documents (single object or array)
+interface LocalJSONDocument {
+  id?: string;
+  url?: string;
+  source_url?: string;
+  title?: string;
+  content?: string;
+  text?: string;
+  fetched_at?: string;
+}
+
+// Splits optional "key: value" front matter from a Markdown body
+function parseFrontMatter(source: string): { data: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      data[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+function parseMarkdownDocument(source: string, relativePath: string, fetchedAt: string): RAGDocument {
+  const { data, body } = parseFrontMatter(source);
+  const heading = body.match(/^#\s+(.+)$/m)?.[1];
+
+  return {
+    id: relativePath,
+    url: resolveCanonicalUrl({ id: relativePath, content: body, metadata: data }),
+    title: data.title || heading || path.basename(relativePath, '.md'),
+    content: body.trim(),
+    fetched_at: data.fetched_at || fetchedAt,
+  };
+}
+
+function parseJSONDocuments(source: string, relativePath: string, fetchedAt: string): RAGDocument[] {
+  const parsed: LocalJSONDocument | LocalJSONDocument[] = JSON.parse(source);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+
+  return items
+    .filter((item) => item.content || item.text)
+    .map((item, index) => ({
+      id: item.id || `${relativePath}#${index + 1}`,
+      url: resolveCanonicalUrl({
+        id: item.id || relativePath,
+        content: item.content || item.text || '',
+        metadata: { ...item },
+      }),
+      title: item.title || item.id || `${path.basename(relativePath, '.json')} ${index + 1}`,
+      content: item.content || item.text || '',
+      fetched_at: item.fetched_at || fetchedAt,
+    }));
+}
+
+async function loadDocuments(rootDir: string): Promise<RAGDocument[]> {
+  const entries = await readdir(rootDir, { recursive: true, withFileTypes: true });
+  const documents: RAGDocument[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile() || !/\.(md|json)$/i.test(entry.name)) {
+      continue;
+    }
+
+    const filePath = path.join(entry.parentPath, entry.name);
+    const relativePath = path.relative(rootDir, filePath);
+    const source = await readFile(filePath, 'utf8');
+    const fetchedAt = new Date().toISOString();
+
+    if (/\.json$/i.test(entry.name)) {
+      documents.push(...parseJSONDocuments(source, relativePath, fetchedAt));
+    } else {
+      documents.push(parseMarkdownDocument(source, relativePath, fetchedAt));
+    }
+  }
+
+  return documents;
+}
+
+function buildIndex(documents: RAGDocument[]): LocalIndex {
+  const documentFrequencies = new Map<string, number>();
+
+  const entries = documents.map((document) => {
+    const tokens = tokenize(`${document.title} ${document.content}`);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+    return { document, termFrequencies, length: tokens.length };
+  });
+
+  const totalLength = entries.reduce((sum, entry) => sum + entry.length, 0);
+
+  return {
+    entries,
+    documentFrequencies,
+    averageLength: entries.length > 0 ? totalLength / entries.length : 0,
+  };
+}
+
+function inverseDocumentFrequency(index: LocalIndex, term: string): number {
+  const documentCount = index.entries.length;
+  const documentFrequency = index.documentFrequencies.get(term) || 0;
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+function scoreBM25(index: LocalIndex, entry: IndexedDocument, queryTerms: string[]): number {
+  return queryTerms.reduce((score, term) => {
+    const frequency = entry.termFrequencies.get(term);
+    if (!frequency) {
+      return score;
+    }
+
+    const idf = inverseDocumentFrequency(index, term);
+    const lengthNorm = 1 - BM25_B + BM25_B * (entry.length / (index.averageLength || 1));
+
+    return score + idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+  }, 0);
+}
+
+/**
+ * BM25 score of a document that contains every query term once at average
+ * length. Scores are divided by it, so a document only nears 1 when it
+ * covers the query's informative terms, not when it merely beats the others.
+ */
+function scoreCeiling(index: LocalIndex, queryTerms: string[]): number {
+  return queryTerms.reduce((sum, term) => sum + inverseDocumentFrequency(index, term), 0);
+}
+
+// Local provider - BM25 keyword index over a directory of Markdown/JSON files
+export function createLocalRetrievalProvider(
+  rootDir: string = path.resolve(process.cwd(), process.env.RAG_LOCAL_DIR || DEFAULT_LOCAL_DIR)
+): RetrievalProvider {
+  // Built lazily on first search and reused for the lifetime of the process
+  let indexPromise: Promise<LocalIndex> | null = null;
+
+  const getIndex = () => {
+    if (!indexPromise) {
+      indexPromise = loadDocuments(rootDir).then(buildIndex);
+      indexPromise.catch(() => {
+        indexPromise = null;
+      });
+    }
+    return indexPromise;
+  };
+
+  return {
+    name: 'local',
+    async search(query, { limit, scoreThreshold }) {
+      const index = await getIndex();
+      const queryTerms = [...new Set(tokenize(query))];
+
+      // Normalize to 0-1 so scoreThreshold keeps the semantics of the remote API
+      const ceiling = scoreCeiling(index, queryTerms) || 1;
+
+      return index.entries
+        .map((entry) => ({
+          ...entry.document,
+          score: Math.min(1, scoreBM25(index, entry, queryTerms) / ceiling),
+        }))
+        .filter((document) => document.score > 0 && document.score >= scoreThreshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { generateObject, type LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { getLogger, redactUserText } from '@/lib/logger';
+import { resolveModel } from '@/lib/models';
+import type { RAGDocument, RetrievalProvider, RetrievalSearchOptions } from './types';
+
+// Standard RRF damping constant (Cormack et al.)
+const RRF_K = 60;
+
+const DEFAULT_VARIANT_COUNT = 3;
+
+const VARIANT_SYSTEM_PROMPT = `You generate alternative search queries for a FIFA.com retrieval system whose content is in English and Spanish.
+
+RULES:
+- Include a translation of the query into the other language (English <-> Spanish)
+- Include rephrasings with synonyms FIFA.com would use (e.g. "group stage" / "fase de grupos")
+- Split multi-part questions into focused sub-questions
+- Each query must be short and self-contained`;
+
+export function isMultiQueryEnabled(): boolean {
+  return process.env.RAG_MULTI_QUERY !== 'false';
+}
+
+function variantCount(): number {
+  const count = Number(process.env.RAG_QUERY_VARIANTS);
+  return Number.isInteger(count) && count > 0 ? count : DEFAULT_VARIANT_COUNT;
+}
+
+export interface QueryVariants {
+  queries: string[];
+  // False when generation failed and only the original query is left
+  complete: boolean;
+  // Tokens used to generate the variants, for the caller's quota; absent when no model was called
+  usage?: LanguageModelUsage;
+}
+
+export interface MultiQueryResult {
+  documents: RAGDocument[];
+  // False when some of the queries failed
+  complete: boolean;
+}
+
+/**
+ * Returns the original query followed by LLM-generated variants
+ * (translations, synonyms, sub-questions), de-duplicated case-insensitively.
+ */
+export async function generateQueryVariants(query: string, abortSignal?: AbortSignal): Promise<QueryVariants> {
+  if (!isMultiQueryEnabled()) {
+    return { queries: [query], complete: true };
+  }
+
+  const count = variantCount();
+
+  try {
+    const { object, usage } = await generateObject({
+      model: resolveModel('rewrite').id,
+      system: VARIANT_SYSTEM_PROMPT,
+      prompt: `Generate up to ${count} alternative search queries for: ${query}`,
+      abortSignal,
+      schema: z.object({
+        queries: z.array(z.string()),
+      }),
+    });
+
+    const seen = new Set<string>();
+    const queries = [query, ...object.queries.slice(0, count)]
+      .map((variant) => variant.trim())
+      .filter((variant) => {
+        const key = variant.toLowerCase();
+        if (!variant || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+    getLogger().debug('rag.query.variants', { queries: queries.map(redactUserText) });
+
+    return { queries, complete: true, usage };
+  } catch (error) {
+    getLogger().warn('rag.query.variants_failed', { error });
+    return { queries: [query], complete: false };
+  }
+}
+
+// Chunks are identified by backend id, falling back to their canonical URL
+function documentKey(document: RAGDocument): string {
+  return document.id ?? document.url;
+}
+
+/**
+ * Merges ranked result lists with reciprocal rank fusion. Each document keeps
+ * its best retrieval score; the output order follows the fused rank.
+ */
+export function reciprocalRankFusion(resultLists: RAGDocument[][], k: number = RRF_K): RAGDocument[] {
+  const fused = new Map<string, { document: RAGDocument; rrfScore: number }>();
+
+  for (const results of resultLists) {
+    results.forEach((document, rank) => {
+      const key = documentKey(document);
+      const entry = fused.get(key);
+      const contribution = 1 / (k + rank + 1);
+
+      if (!entry) {
+        fused.set(key, { document, rrfScore: contribution });
+        return;
+      }
+
+      entry.rrfScore += contribution;
+      if ((document.score ?? 0) > (entry.document.score ?? 0)) {
+        entry.document = document;
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.rrfScore - a.rrfScore)
+    .map(({ document }) => document);
+}
+
+// Runs every query in parallel and fuses the results; fails only if all queries fail
+export async function multiQuerySearch(
+  provider: RetrievalProvider,
+  queries: string[],
+  options: RetrievalSearchOptions
+): Promise<MultiQueryResult> {
+  const settled = await Promise.allSettled(
+    queries.map((query) => provider.search(query, options))
+  );
+
+  const resultLists = settled
+    .filter((result): result is PromiseFulfilledResult<RAGDocument[]> => result.status === 'fulfilled')
+    .map((result) => result.value);
+
+  if (resultLists.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return {
+    documents: reciprocalRankFusion(resultLists).slice(0, options.limit),
+    complete: resultLists.length === settled.length,
+  };
+}
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import policyFile from './no-answer-policy.json';
+import { foldText } from './text';
+import type { RAGDocument } from './types';
+
+// ============================================================================
+// NO-ANSWER POLICY
+// ============================================================================
+
+const localeSchema = z.object({
+  // Common words used to recognise the language of a question
+  markers: z.array(z.string()).default([]),
+  messages: z.object({
+    greeting: z.string(),
+    'off-topic': z.string(),
+    unknown: z.string(),
+    // Questions refused for prompt-injection attempts; falls back to "off-topic"
+    refused: z.string().optional(),
+  }),
+  followUps: z.array(z.string()).default([]),
+});
+
+const suggestedLinkSchema = z.object({
+  title: z.string(),
+  url: z.string().url(),
+  // Links without keywords are general fallbacks, listed last
+  keywords: z.array(z.string()).default([]),
+});
+
+const noAnswerPolicySchema = z
+  .object({
+    minTopScore: z.number().min(0).max(1).default(0.3),
+    defaultLocale: z.string(),
+    // Intents answered from the policy without calling the model
+    directIntents: z.array(z.enum(['greeting', 'off-topic'])).default([]),
+    // Matched against the whole message as lowercase words, e.g. "good morning"
+    greetingPatterns: z.array(z.string()).default([]),
+    // Whole words or phrases
+    domainKeywords: z.array(z.string()).default([]),
+    locales: z.record(z.string(), localeSchema),
+    maxLinks: z.number().int().nonnegative().default(3),
+    links: z.array(suggestedLinkSchema).default([]),
+  })
+  .refine(({ defaultLocale, locales }) => defaultLocale in locales, {
+    message: 'defaultLocale must be listed in locales',
+    path: ['defaultLocale'],
+  });
+
+export type NoAnswerPolicy = z.infer<typeof noAnswerPolicySchema>;
+export type QuestionIntent = 'greeting' | 'off-topic' | 'in-domain';
+// In-domain questions without an answer are "unknown"
+export type NoAnswerIntent = Exclude<QuestionIntent, 'in-domain'> | 'unknown' | 'refused';
+
+// Structured reply sent to the client as a `data-noAnswer` part
+export interface NoAnswerResponse {
+  intent: NoAnswerIntent;
+  locale: string;
+  message: string;
+  links: { title: string; url: string }[];
+  followUps: string[];
+}
+
+let policy: NoAnswerPolicy | null = null;
+
+/**
+ * Loads the policy from RAG_NO_ANSWER_POLICY (inline JSON) or the bundled
+ * no-answer-policy.json; RAG_NO_ANSWER_MIN_SCORE overrides the threshold.
+ */
+export function getNoAnswerPolicy(): NoAnswerPolicy {
+  if (!policy) {
+    const source = process.env.RAG_NO_ANSWER_POLICY
+      ? JSON.parse(process.env.RAG_NO_ANSWER_POLICY)
+      : policyFile;
+    const minTopScore = process.env.RAG_NO_ANSWER_MIN_SCORE;
+
+    policy = noAnswerPolicySchema.parse({
+      ...source,
+      ...(minTopScore && { minTopScore: Number(minTopScore) }),
+    });
+  }
+
+  return policy;
+}
+
+// Longer messages are never greetings, whatever the patterns allow
+const GREETING_MAX_WORDS = 6;
+
+function words(text: string): string[] {
+  return foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Whole-word match, so "ghosts" does not contain "host"
+function containsKeyword(text: string, keywords: string[]): boolean {
+  const padded = ` ${words(text).join(' ')} `;
+  return keywords.some((keyword) => padded.includes(` ${words(keyword).join(' ')} `));
+}
+
+/**
+ * Picks the configured locale whose marker words occur most in the text,
+ * then the first supported Accept-Language tag, then the default locale.
+ */
+export function detectLocale(
+  text: string,
+  acceptLanguage: string | null = null,
+  config: NoAnswerPolicy = getNoAnswerPolicy()
+): string {
+  const textWords = words(text);
+  const [best] = Object.entries(config.locales)
+    .map(([locale, { markers }]) => ({
+      locale,
+      hits: textWords.filter((word) => markers.includes(word)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  if (best && best.hits > 0) {
+    return best.locale;
+  }
+
+  const preferred = (acceptLanguage ?? '')
+    .split(',')
+    .map((tag) => tag.split(';')[0].trim().split('-')[0].toLowerCase())
+    .find((tag) => tag in config.locales);
+
+  return preferred ?? config.defaultLocale;
+}
+
+/**
+ * Any FIFA keyword makes a question in-domain. Only a message that is nothing
+ * but a greeting counts as one, so "hi, what time do the gates open?" still
+ * reaches the model.
+ */
+export function classifyIntent(text: string, config: NoAnswerPolicy = getNoAnswerPolicy()): QuestionIntent {
+  if (containsKeyword(text, config.domainKeywords)) {
+    return 'in-domain';
+  }
+
+  const textWords = words(text);
+  const greeting =
+    textWords.length <= GREETING_MAX_WORDS &&
+    config.greetingPatterns.some((pattern) => new RegExp(pattern, 'i').test(textWords.join(' ')));
+
+  return greeting ? 'greeting' : 'off-topic';
+}
+
+// Retrieval counts as empty when nothing clears the top-score threshold
+export function hasConfidentResults(documents: RAGDocument[], config: NoAnswerPolicy = getNoAnswerPolicy()): boolean {
+  const topScore = Math.max(...documents.map((document) => document.score ?? 0));
+  return documents.length > 0 && topScore >= config.minTopScore;
+}
+
+function suggestLinks(text: string, config: NoAnswerPolicy) {
+  const matching = config.links.filter(
+    (link) => link.keywords.length > 0 && containsKeyword(text, link.keywords)
+  );
+  const general = config.links.filter((link) => link.keywords.length === 0);
+
+  return [...matching, ...general]
+    .slice(0, config.maxLinks)
+    .map(({ title, url }) => ({ title, url }));
+}
+
+/**
+ * Builds the localized reply for a question the bot should not or cannot
+ * answer from FIFA.com content, with suggested links and follow-ups.
+ */
+export function buildNoAnswer(
+  question: string,
+  locale: string,
+  config: NoAnswerPolicy = getNoAnswerPolicy()
+): NoAnswerResponse {
+  const questionIntent = classifyIntent(question, config);
+  const intent: NoAnswerIntent = questionIntent === 'in-domain' ? 'unknown' : questionIntent;
+  const localeConfig = config.locales[locale] ?? config.locales[config.defaultLocale];
+
+  return {
+    intent,
+    locale: locale in config.locales ? locale : config.defaultLocale,
+    message: localeConfig.messages[intent],
+    links: intent === 'greeting' ? [] : suggestLinks(question, config),
+    followUps: localeConfig.followUps,
+  };
+}
+
+// Reply to a question refused by prompt-injection screening, without suggestions
+export function buildRefusal(locale: string, config: NoAnswerPolicy = getNoAnswerPolicy()): NoAnswerResponse {
+  const supported = locale in config.locales ? locale : config.defaultLocale;
+  const { messages } = config.locales[supported];
+
+  return {
+    intent: 'refused',
+    locale: supported,
+    message: messages.refused ?? messages['off-topic'],
+    links: [],
+    followUps: [],
+  };
+}
+
+// Whether an answer is (or contains) one of the configured no-answer messages
+export function isNoAnswerMessage(answer: string, config: NoAnswerPolicy = getNoAnswerPolicy()): boolean {
+  return Object.values(config.locales).some(({ messages }) =>
+    Object.values(messages).some((message) => answer.includes(message))
+  );
+}
@@ -0,0 +1,94 @@
+import type { RAGDocument, RetrievalProvider } from './types';
+import { resolveCanonicalUrl } from './url-resolver';
+import {
+  createCircuitBreaker,
+  getResilienceConfig,
+  resilientFetch,
+  type ResilienceConfig,
+} from './http-client';
+import { getLogger, redactUserText } from '@/lib/logger';
+
+const DEFAULT_RAG_API_URL = 'https://hackathonservice-production.up.railway.app';
+
+// Type definitions for RAG API response
+interface RAGResult {
+  id: string;
+  text: string;
+  score: number;
+  metadata?: {
+    title?: string;
+    text?: string;
+    url?: string;
+    source_url?: string;
+    [key: string]: unknown;
+  };
+}
+
+// Remote provider - production RAG API on Railway, behind timeouts, retries and a circuit breaker
+export function createRemoteRetrievalProvider(
+  baseUrl: string = process.env.RAG_REMOTE_URL || DEFAULT_RAG_API_URL,
+  resilience: ResilienceConfig = getResilienceConfig()
+): RetrievalProvider {
+  const breaker = createCircuitBreaker('rag.remote', resilience);
+
+  return {
+    name: 'remote',
+    available: () => breaker.state() !== 'open',
+    async search(query, { limit, scoreThreshold, signal }) {
+      const logger = getLogger();
+      const ragRequest = {
+        query: query,
+        limit,
+        score_threshold: scoreThreshold
+      };
+
+      logger.debug('rag.remote.request', {
+        ...ragRequest,
+        query: redactUserText(query)
+      });
+
+      const response = await resilientFetch(`${baseUrl}/search`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(ragRequest),
+        signal
+      }, breaker, resilience);
+
+      if (!response.ok) {
+        throw new Error(`RAG API error: ${response.status} ${response.statusText}`);
+      }
+
+      const ragResults = await response.json();
+
+      logger.debug('rag.remote.response', {
+        status: response.status,
+        totalFound: ragResults.total_found || 0,
+        resultsCount: ragResults.results?.length || 0
+      });
+
+      // Transform RAG API response to our RAGDocument format
+      return ragResults.results?.map((result: RAGResult, index: number): RAGDocument => {
+        logger.debug('rag.remote.document', {
+          id: result.id,
+          score: result.score,
+          contentLength: result.text?.length || 0
+        });
+
+        return {
+          id: result.id,
+          url: resolveCanonicalUrl({
+            id: result.id,
+            content: result.text || '',
+            metadata: result.metadata
+          }),
+          title: result.metadata?.title || `FIFA Document ${index + 1}`,
+          content: result.text || 'No content available',
+          fetched_at: new Date().toISOString(),
+          score: result.score
+        };
+      }) || [];
+    },
+  };
+}
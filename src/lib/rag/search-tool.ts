@@ -0,0 +1,121 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { getLogger, redactUserText } from '@/lib/logger';
+import { buildContextFromSources, type ContextDocument } from './context';
+import { screenDocuments } from './injection';
+import {
+  buildNoAnswer,
+  detectLocale,
+  hasConfidentResults,
+  type NoAnswerResponse,
+} from './no-answer';
+import type { RAGResponse } from './types';
+
+// ============================================================================
+// FIFA.COM SEARCH TOOL
+// ============================================================================
+
+const NO_RESULTS_MESSAGE = 'No relevant FIFA.com content was found for this query.';
+
+export const searchFifaContentInputSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .describe('Standalone search query, with references to earlier messages resolved'),
+});
+
+export interface SearchToolSource {
+  sourceNumber: number;
+  title: string;
+  url: string;
+  score: number | null;
+}
+
+export interface SearchToolResult {
+  found: boolean;
+  // Numbered context block handed to the model
+  context: string;
+  sources: SearchToolSource[];
+  // Localized reply to give when no search finds anything
+  noAnswer?: NoAnswerResponse;
+}
+
+export interface SearchToolOptions {
+  search: (query: string, signal?: AbortSignal) => Promise<RAGResponse | null>;
+  // Locale of the conversation; detected from the query when omitted
+  locale?: string;
+  onNoAnswer?: (noAnswer: NoAnswerResponse) => void;
+  // Receives the documents placed in a result, the first one labelled `firstSourceNumber`
+  onSources?: (sources: ContextDocument[], firstSourceNumber: number) => void;
+}
+
+/**
+ * Exposes retrieval as a tool so the model decides when and how often to
+ * search. Source numbers continue across calls, keeping every [Source N]
+ * label unique within one answer.
+ */
+export function createSearchFifaContentTool({ search, locale, onNoAnswer, onSources }: SearchToolOptions) {
+  let citedCount = 0;
+
+  return tool({
+    description:
+      'Search the indexed FIFA.com content (tickets, tournaments, matches, stadiums, teams, policies). Returns numbered sources to cite as [Source N].',
+    inputSchema: searchFifaContentInputSchema,
+    execute: async ({ query }, { abortSignal }): Promise<SearchToolResult> => {
+      const logger = getLogger();
+      logger.info('rag.tool.called', { query: redactUserText(query) });
+
+      const response = await search(query, abortSignal);
+      // Poisoned documents are stripped or dropped before they reach the prompt
+      const documents = response?.has_results ? screenDocuments(response.documents) : [];
+      if (documents.length === 0 || !hasConfidentResults(documents)) {
+        const noAnswer = buildNoAnswer(query, locale ?? detectLocale(query));
+        logger.info('rag.no_answer', { intent: noAnswer.intent, locale: noAnswer.locale });
+        onNoAnswer?.(noAnswer);
+        return { found: false, context: '', sources: [], noAnswer };
+      }
+
+      // Fit the best-scoring documents into the context token budget
+      const firstSourceNumber = citedCount + 1;
+      const context = buildContextFromSources(documents, query, undefined, firstSourceNumber);
+      citedCount += context.included.length;
+
+      logger.info('rag.context.assembled', {
+        tokens: context.tokens,
+        included: context.included.map(({ document, truncated }) => ({
+          url: document.url,
+          score: document.score,
+          truncated
+        })),
+        dropped: context.dropped.map((document) => ({
+          url: document.url,
+          score: document.score
+        }))
+      });
+
+      onSources?.(context.included, firstSourceNumber);
+
+      return {
+        found: true,
+        context: context.text,
+        sources: context.included.map(({ document }, index) => ({
+          sourceNumber: firstSourceNumber + index,
+          title: document.title,
+          url: document.url,
+          score: document.score ?? null,
+        })),
+      };
+    },
+    // The model only needs the numbered context, not the source summary
+    toModelOutput: (output: SearchToolResult) => ({
+      type: 'text',
+      value: output.found
+        ? output.context
+        : `${NO_RESULTS_MESSAGE} If no other search finds relevant content, reply with exactly this message: "${output.noAnswer?.message}"`,
+    }),
+  });
+}
+
+export type SearchFifaContentTool = ReturnType<typeof createSearchFifaContentTool>;
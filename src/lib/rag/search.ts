@@ -0,0 +1,99 @@
+import type { LanguageModelUsage } from 'ai';
+import { getLogger, redactUserText } from '@/lib/logger';
+import { getRetrievalCache, getRetrievalCacheKey } from '@/lib/retrieval-cache';
+import { getRetrievalProvider } from './index';
+import { generateQueryVariants, multiQuerySearch } from './multi-query';
+import type { RAGResponse, RetrievalProvider } from './types';
+
+interface SearchOutcome {
+  // Null when the search failed or was cancelled
+  response: RAGResponse | null;
+  // False when variant generation or some variant searches failed, so results may be missing
+  complete: boolean;
+}
+
+const SEARCH_OPTIONS = {
+  limit: 5,
+  scoreThreshold: 0.3
+};
+
+// Whether retrieval is worth attempting; false while the backend's circuit is open
+export function isRetrievalAvailable(provider: RetrievalProvider = getRetrievalProvider()): boolean {
+  return provider.available?.() ?? true;
+}
+
+// RAG System Query Function - multi-query search against the configured provider, cached.
+// onUsage receives the tokens spent generating query variants (cache hits spend none)
+export async function queryRAGSystem(
+  query: string,
+  provider: RetrievalProvider = getRetrievalProvider(),
+  signal?: AbortSignal,
+  onUsage?: (usage: LanguageModelUsage) => void
+): Promise<RAGResponse | null> {
+  const cache = getRetrievalCache();
+  if (!cache) {
+    return (await searchProvider(query, provider, signal, onUsage)).response;
+  }
+
+  const key = getRetrievalCacheKey(query, provider.name, SEARCH_OPTIONS);
+  const cached = await cache.get(key);
+  if (cached) {
+    getLogger().info('rag.cache.hit', { provider: provider.name, documentsFound: cached.documents.length });
+    return cached;
+  }
+
+  getLogger().debug('rag.cache.miss', { provider: provider.name });
+  const { response, complete } = await searchProvider(query, provider, signal, onUsage);
+  // Failed, cancelled and partial searches are retried next time rather than pinned for the TTL
+  if (response && complete) {
+    await cache.set(key, response);
+  }
+  return response;
+}
+
+async function searchProvider(
+  query: string,
+  provider: RetrievalProvider,
+  signal?: AbortSignal,
+  onUsage?: (usage: LanguageModelUsage) => void
+): Promise<SearchOutcome> {
+  const logger = getLogger();
+
+  try {
+    logger.info('rag.query.started', {
+      provider: provider.name,
+      query: redactUserText(query)
+    });
+
+    // Search with translations/synonyms of the query and fuse the rankings
+    const variants = await generateQueryVariants(query, signal);
+    if (variants.usage) {
+      onUsage?.(variants.usage);
+    }
+    const result = await multiQuerySearch(provider, variants.queries, { ...SEARCH_OPTIONS, signal });
+    const documents = result.documents;
+    const complete = variants.complete && result.complete;
+
+    const ragResponse: RAGResponse = {
+      documents,
+      has_results: documents.length > 0
+    };
+
+    logger.info('rag.query.completed', {
+      documentsFound: documents.length,
+      hasResults: ragResponse.has_results,
+      complete,
+      avgScore: documents.length > 0 ? Number((documents.reduce((sum, d) => sum + (d.score || 0), 0) / documents.length).toFixed(3)) : 0
+    });
+
+    return { response: ragResponse, complete };
+
+  } catch (error) {
+    if (signal?.aborted) {
+      logger.info('rag.query.cancelled');
+      return { response: null, complete: false };
+    }
+    logger.error('rag.query.connection_error', { error });
+    return { response: null, complete: false }; // Graceful degradation
+  }
+}
@@ -0,0 +1,26 @@
+// Rough token estimate (~4 characters per token for English/Spanish prose)
+const CHARS_PER_TOKEN = 4;
+
+// Lowercases and folds accents ("Selección" -> "seleccion")
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+// Lowercases, folds accents and splits into searchable terms
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxLength = maxTokens * CHARS_PER_TOKEN;
+  return text.length <= maxLength ? text : `${text.substring(0, maxLength).trimEnd()}…`;
+}
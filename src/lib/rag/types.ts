@@ -0,0 +1,34 @@
+// ============================================================================
+// RETRIEVAL TYPES
+// ============================================================================
+
+export interface RAGDocument {
+  // Backend identifier of the chunk, when the provider has one
+  id?: string;
+  url: string;
+  title: string;
+  content: string;
+  fetched_at: string;
+  score?: number;
+}
+
+export interface RAGResponse {
+  documents: RAGDocument[];
+  has_results: boolean;
+  query_id?: string;
+}
+
+export interface RetrievalSearchOptions {
+  limit: number;
+  scoreThreshold: number;
+  // Cancels the search, e.g. when the answer is stopped
+  signal?: AbortSignal;
+}
+
+// Any backend able to turn a query into scored FIFA.com documents
+export interface RetrievalProvider {
+  name: string;
+  search(query: string, options: RetrievalSearchOptions): Promise<RAGDocument[]>;
+  // False while the backend is known to be unhealthy; assumed available when absent
+  available?(): boolean;
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import rulesFile from './fifa-url-rules.json';
+
+// ============================================================================
+// CANONICAL URL RESOLUTION
+// ============================================================================
+
+const urlRuleSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+  priority: z.number().default(0),
+  idPatterns: z.array(z.string()).default([]),
+  keywords: z.array(z.string()).default([]),
+  minMatches: z.number().int().positive().default(1),
+});
+
+const urlRulesFileSchema = z.object({
+  allowedDomains: z.array(z.string()).nonempty(),
+  defaultUrl: z.string().url(),
+  rules: z.array(urlRuleSchema),
+});
+
+export type UrlRule = z.infer<typeof urlRuleSchema>;
+export type UrlRulesFile = z.infer<typeof urlRulesFileSchema>;
+
+export interface UrlResolutionInput {
+  id: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+const defaultRules = urlRulesFileSchema.parse(rulesFile);
+
+// Only https links on an allow-listed domain (or its subdomains) are accepted
+export function isAllowedUrl(url: string, allowedDomains: readonly string[]): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && allowedDomains.some(
+      (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function metadataUrl(metadata: Record<string, unknown> | undefined): string | undefined {
+  const candidate = metadata?.url ?? metadata?.source_url;
+  return typeof candidate === 'string' ? candidate : undefined;
+}
+
+function matchByIdPattern(id: string, rules: UrlRule[]): UrlRule | undefined {
+  const idLower = id.toLowerCase();
+  return rules
+    .filter((rule) => rule.idPatterns.some((pattern) => new RegExp(pattern, 'i').test(idLower)))
+    .sort((a, b) => b.priority - a.priority)[0];
+}
+
+// Rule with the most keyword hits (at least its minimum); priority breaks ties,
+// so a passing mention of a specific page does not outrank the main topic
+function matchByKeywords(content: string, rules: UrlRule[]): UrlRule | undefined {
+  const contentLower = content.toLowerCase();
+  return rules
+    .map((rule) => ({
+      rule,
+      hits: rule.keywords.filter((keyword) => contentLower.includes(keyword.toLowerCase())).length,
+    }))
+    .filter(({ rule, hits }) => hits >= rule.minMatches)
+    .sort((a, b) => b.hits - a.hits || b.rule.priority - a.rule.priority)[0]?.rule;
+}
+
+/**
+ * Resolves the canonical fifa.com URL for a retrieved document: metadata URL
+ * first, then id patterns, then keyword rules, then the tournament homepage.
+ */
+export function resolveCanonicalUrl(
+  { id, content, metadata }: UrlResolutionInput,
+  config: UrlRulesFile = defaultRules
+): string {
+  const { allowedDomains } = config;
+  const rules = config.rules.filter((rule) => isAllowedUrl(rule.url, allowedDomains));
+
+  const fromMetadata = metadataUrl(metadata);
+  // The parsed form percent-encodes anything that could break out of a prompt block
+  if (fromMetadata && isAllowedUrl(fromMetadata, allowedDomains)) {
+    return new URL(fromMetadata).href;
+  }
+
+  const rule = matchByIdPattern(id, rules) ?? matchByKeywords(content, rules);
+  return rule?.url ?? config.defaultUrl;
+}
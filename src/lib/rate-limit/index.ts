@@ -0,0 +1,189 @@
+import { createSessionId, getSessionId } from '@/lib/session';
+import { createMemoryRateLimitStore } from './memory-store';
+import type { BucketResult, RateLimitStore, TokenBucket } from './types';
+
+export type { BucketResult, RateLimitStore, TokenBucket } from './types';
+export { createMemoryRateLimitStore } from './memory-store';
+
+// ============================================================================
+// CHAT RATE LIMITS & DAILY QUOTAS
+// ============================================================================
+
+const DEFAULT_REQUESTS_PER_MINUTE_PER_IP = 30;
+const DEFAULT_REQUESTS_PER_MINUTE_PER_SESSION = 10;
+const DEFAULT_DAILY_TOKENS = 200_000;
+// Higher than the session quota, as all clients behind one NAT share an IP
+const DEFAULT_DAILY_TOKENS_PER_IP = 1_000_000;
+// Proxies in front of the app that append to X-Forwarded-For (e.g. the platform's edge)
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+export interface RateLimitConfig {
+  // Token buckets; null disables the limit
+  ip: TokenBucket | null;
+  session: TokenBucket | null;
+  // Model tokens per session and per IP per UTC day; null disables a quota
+  dailyTokens: number | null;
+  dailyTokensPerIp: number | null;
+}
+
+export interface ClientIdentity {
+  ip: string;
+  sessionId: string;
+  // Whether the session cookie has to be set on the response
+  newSession: boolean;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate' | 'quota'; retryAfterSeconds: number };
+
+let store: RateLimitStore | null = null;
+
+// Selects the rate limit backend from RATE_LIMIT_STORE ("memory" by default)
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE || 'memory';
+
+    switch (kind) {
+      case 'memory':
+        store = createMemoryRateLimitStore();
+        break;
+      default:
+        throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+    }
+  }
+
+  return store;
+}
+
+// Non-negative number from the environment; 0 turns the limit off
+function limitFromEnv(name: string, fallback: number): number | null {
+  const raw = process.env[name];
+  const value = raw === undefined || raw === '' ? fallback : Number(raw);
+
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name}: ${raw}`);
+  }
+  return value > 0 ? value : null;
+}
+
+// A bucket of `perMinute` requests, refilled evenly over the minute
+function perMinuteBucket(perMinute: number | null): TokenBucket | null {
+  return perMinute ? { capacity: perMinute, refillPerSecond: perMinute / 60 } : null;
+}
+
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    ip: perMinuteBucket(limitFromEnv('RATE_LIMIT_IP_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE_PER_IP)),
+    session: perMinuteBucket(
+      limitFromEnv('RATE_LIMIT_SESSION_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE_PER_SESSION)
+    ),
+    dailyTokens: limitFromEnv('RATE_LIMIT_DAILY_TOKENS', DEFAULT_DAILY_TOKENS),
+    dailyTokensPerIp: limitFromEnv('RATE_LIMIT_DAILY_TOKENS_PER_IP', DEFAULT_DAILY_TOKENS_PER_IP),
+  };
+}
+
+function trustedProxiesFromEnv(): number {
+  const raw = process.env.RATE_LIMIT_TRUSTED_PROXIES;
+  const value = raw === undefined || raw === '' ? DEFAULT_TRUSTED_PROXIES : Number(raw);
+
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid RATE_LIMIT_TRUSTED_PROXIES: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * The address the outermost trusted proxy received the request from: the
+ * `trustedProxies`-th X-Forwarded-For entry from the right. Entries left of
+ * it were sent by the client and cannot be trusted.
+ */
+function getClientIp(req: Request, trustedProxies: number = trustedProxiesFromEnv()): string {
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  if (trustedProxies === 0 || forwarded.length === 0) {
+    return 'unknown';
+  }
+  return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+}
+
+/**
+ * Identifies the caller by the IP its trusted proxy saw and a session cookie,
+ * issuing a new session when missing.
+ */
+export function getClientIdentity(req: Request): ClientIdentity {
+  const sessionId = getSessionId(req);
+
+  return {
+    ip: getClientIp(req),
+    sessionId: sessionId ?? createSessionId(),
+    newSession: sessionId === null,
+  };
+}
+
+// Requests without a session cookie share one session per IP, so dropping the cookie resets nothing
+function sessionKey(client: ClientIdentity): string {
+  return client.newSession ? `ip:${client.ip}` : client.sessionId;
+}
+
+// Sessions are free to drop their cookie, so usage is also counted per IP
+function quotaKeys(client: ClientIdentity, date = new Date()) {
+  const day = date.toISOString().slice(0, 10);
+  return {
+    session: `quota:session:${sessionKey(client)}:${day}`,
+    ip: `quota:ip:${client.ip}:${day}`,
+  };
+}
+
+function secondsUntilUtcMidnight(date = new Date()): number {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  return Math.ceil((midnight - date.getTime()) / 1000);
+}
+
+/**
+ * Checks the session and IP daily quotas, then takes a request from the IP
+ * and session buckets. Rejected requests report when to retry.
+ */
+export async function checkRateLimit(
+  client: ClientIdentity,
+  config: RateLimitConfig = getRateLimitConfig(),
+  limits: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitDecision> {
+  const keys = quotaKeys(client);
+  const [sessionUsage, ipUsage] = await Promise.all([limits.get(keys.session), limits.get(keys.ip)]);
+
+  if (
+    (config.dailyTokens !== null && sessionUsage >= config.dailyTokens) ||
+    (config.dailyTokensPerIp !== null && ipUsage >= config.dailyTokensPerIp)
+  ) {
+    return { allowed: false, reason: 'quota', retryAfterSeconds: secondsUntilUtcMidnight() };
+  }
+
+  const results = await Promise.all([
+    config.ip ? limits.consume(`ip:${client.ip}`, config.ip) : null,
+    config.session ? limits.consume(`session:${sessionKey(client)}`, config.session) : null,
+  ]);
+  const rejected = results.filter((result): result is BucketResult => result !== null && !result.allowed);
+
+  return rejected.length > 0
+    ? { allowed: false, reason: 'rate', retryAfterSeconds: Math.max(...rejected.map((result) => result.retryAfterSeconds)) }
+    : { allowed: true };
+}
+
+// Counts the model tokens of an answer against the client's session and IP daily quotas
+export async function recordTokenUsage(
+  client: ClientIdentity,
+  tokens: number,
+  limits: RateLimitStore = getRateLimitStore()
+): Promise<void> {
+  const keys = quotaKeys(client);
+  const ttlSeconds = secondsUntilUtcMidnight();
+
+  await Promise.all([
+    limits.increment(keys.session, tokens, ttlSeconds),
+    limits.increment(keys.ip, tokens, ttlSeconds),
+  ]);
+}
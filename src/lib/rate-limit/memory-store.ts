@@ -0,0 +1,74 @@
+import type { RateLimitStore } from './types';
+
+// Expired entries are swept once the store grows past this many keys
+const SWEEP_THRESHOLD = 10_000;
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket will be full again and can be dropped
+  idleAt: number;
+}
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+// Memory store - per server process, so limits apply per instance
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+  const counters = new Map<string, Counter>();
+
+  const sweep = () => {
+    const time = now();
+    if (buckets.size > SWEEP_THRESHOLD) {
+      buckets.forEach((state, key) => state.idleAt <= time && buckets.delete(key));
+    }
+    if (counters.size > SWEEP_THRESHOLD) {
+      counters.forEach((counter, key) => counter.expiresAt <= time && counters.delete(key));
+    }
+  };
+
+  return {
+    async consume(key, { capacity, refillPerSecond }, cost = 1) {
+      sweep();
+      const time = now();
+      const state = buckets.get(key);
+      const elapsed = state ? (time - state.updatedAt) / 1000 : 0;
+      const tokens = state ? Math.min(capacity, state.tokens + elapsed * refillPerSecond) : capacity;
+      const allowed = tokens >= cost;
+      const remaining = allowed ? tokens - cost : tokens;
+
+      buckets.set(key, {
+        tokens: remaining,
+        updatedAt: time,
+        idleAt: time + ((capacity - remaining) / refillPerSecond) * 1000,
+      });
+
+      return {
+        allowed,
+        remaining: Math.floor(remaining),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((cost - tokens) / refillPerSecond),
+      };
+    },
+
+    async increment(key, amount, ttlSeconds) {
+      sweep();
+      const time = now();
+      const counter = counters.get(key);
+      const current = counter && counter.expiresAt > time
+        ? counter
+        : { value: 0, expiresAt: time + ttlSeconds * 1000 };
+
+      current.value += amount;
+      counters.set(key, current);
+      return current.value;
+    },
+
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > now() ? counter.value : 0;
+    },
+  };
+}
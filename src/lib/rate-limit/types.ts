@@ -0,0 +1,25 @@
+// ============================================================================
+// RATE LIMIT TYPES
+// ============================================================================
+
+export interface TokenBucket {
+  // Largest burst of requests allowed at once
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the request would be allowed, 0 when it was
+  retryAfterSeconds: number;
+}
+
+// Any backend able to hold buckets and counters atomically (memory, Redis...)
+export interface RateLimitStore {
+  // Takes `cost` tokens from the bucket at `key`, refilled continuously up to its capacity
+  consume(key: string, bucket: TokenBucket, cost?: number): Promise<BucketResult>;
+  // Adds to the counter at `key`, which expires `ttlSeconds` after it is created
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
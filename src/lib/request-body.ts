@@ -0,0 +1,40 @@
+// ============================================================================
+// REQUEST BODIES
+// ============================================================================
+
+export type JsonBodyResult =
+  | { ok: true; body: unknown }
+  | { ok: false; reason: 'too_large' | 'invalid_json' };
+
+/**
+ * Reads a JSON request body of at most `maxBytes`. Oversized bodies are
+ * rejected from their Content-Length, or as soon as the stream passes the
+ * limit, before anything is buffered in full or parsed.
+ */
+export async function readJsonBody(req: Request, maxBytes: number): Promise<JsonBodyResult> {
+  if (Number(req.headers.get('content-length')) > maxBytes) {
+    return { ok: false, reason: 'too_large' };
+  }
+  if (!req.body) {
+    return { ok: false, reason: 'invalid_json' };
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    size += next.value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return { ok: false, reason: 'too_large' };
+    }
+    chunks.push(next.value);
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(new TextDecoder().decode(Buffer.concat(chunks))) };
+  } catch {
+    return { ok: false, reason: 'invalid_json' };
+  }
+}
@@ -0,0 +1,55 @@
+import { foldText } from '@/lib/rag/text';
+import type { RetrievalSearchOptions } from '@/lib/rag/types';
+import { createMemoryRetrievalCache } from './memory-store';
+import type { RetrievalCache } from './types';
+
+export type { RetrievalCache, RetrievalCacheStats } from './types';
+export { createMemoryRetrievalCache } from './memory-store';
+
+const DEFAULT_TTL_SECONDS = 600;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+let cache: RetrievalCache | null | undefined;
+
+// Selects the cache backend from RAG_CACHE_STORE ("memory" by default, "none" disables caching)
+export function getRetrievalCache(): RetrievalCache | null {
+  if (cache === undefined) {
+    const kind = process.env.RAG_CACHE_STORE || 'memory';
+
+    switch (kind) {
+      case 'memory':
+        cache = createMemoryRetrievalCache({
+          ttlSeconds: positiveIntegerEnv('RAG_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS),
+          maxEntries: positiveIntegerEnv('RAG_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES),
+        });
+        break;
+      case 'none':
+        cache = null;
+        break;
+      default:
+        throw new Error(`Unknown RAG_CACHE_STORE: ${kind}`);
+    }
+  }
+
+  return cache;
+}
+
+// "¿Cuánto cuestan las entradas?" and "cuanto cuestan las  entradas" share a key
+export function normalizeQuery(query: string): string {
+  return foldText(query)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function getRetrievalCacheKey(
+  query: string,
+  provider: string,
+  { limit, scoreThreshold }: Pick<RetrievalSearchOptions, 'limit' | 'scoreThreshold'>
+): string {
+  return [provider, limit, scoreThreshold, normalizeQuery(query)].join('|');
+}
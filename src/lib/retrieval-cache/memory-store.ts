@@ -0,0 +1,64 @@
+import type { RAGResponse } from '@/lib/rag/types';
+import type { RetrievalCache } from './types';
+
+interface CacheEntry {
+  response: RAGResponse;
+  expiresAt: number;
+}
+
+export interface MemoryRetrievalCacheOptions {
+  ttlSeconds: number;
+  maxEntries: number;
+}
+
+// Memory cache - per server process; the Map's insertion order doubles as LRU order
+export function createMemoryRetrievalCache(
+  { ttlSeconds, maxEntries }: MemoryRetrievalCacheOptions,
+  now: () => number = Date.now
+): RetrievalCache {
+  const entries = new Map<string, CacheEntry>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= now()) {
+        entries.delete(key);
+        misses += 1;
+        return null;
+      }
+
+      // Move to the most recently used end
+      entries.delete(key);
+      entries.set(key, entry);
+      hits += 1;
+      // Copies keep callers from changing the cached documents
+      return structuredClone(entry.response);
+    },
+
+    async set(key, response) {
+      entries.delete(key);
+      entries.set(key, { response: structuredClone(response), expiresAt: now() + ttlSeconds * 1000 });
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        entries.delete(oldest);
+        evictions += 1;
+      }
+    },
+
+    async clear() {
+      const size = entries.size;
+      entries.clear();
+      return size;
+    },
+
+    async stats() {
+      return { size: entries.size, maxEntries, ttlSeconds, hits, misses, evictions };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { RAGResponse } from '@/lib/rag/types';
+
+// ============================================================================
+// RETRIEVAL CACHE TYPES
+// ============================================================================
+
+export interface RetrievalCacheStats {
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  // Entries dropped to stay under `maxEntries`
+  evictions: number;
+}
+
+// Any backend able to share search results between requests (memory, Redis...)
+export interface RetrievalCache {
+  get(key: string): Promise<RAGResponse | null>;
+  set(key: string, response: RAGResponse): Promise<void>;
+  // Removes every entry and returns how many there were
+  clear(): Promise<number>;
+  stats(): Promise<RetrievalCacheStats>;
+}
@@ -0,0 +1,29 @@
+// ============================================================================
+// BROWSER SESSIONS
+// ============================================================================
+
+export const SESSION_COOKIE = 'chat_session';
+
+const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+const SESSION_ID_PATTERN = /^[\w-]{16,64}$/;
+
+function readCookie(req: Request, name: string): string | undefined {
+  return (req.headers.get('cookie') ?? '')
+    .split(';')
+    .map((cookie) => cookie.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+}
+
+// The browser session from its cookie, or null when missing or malformed
+export function getSessionId(req: Request): string | null {
+  const cookie = readCookie(req, SESSION_COOKIE);
+  return cookie !== undefined && SESSION_ID_PATTERN.test(cookie) ? cookie : null;
+}
+
+export function createSessionId(): string {
+  return crypto.randomUUID();
+}
+
+export function sessionCookie(sessionId: string): string {
+  return `${SESSION_COOKIE}=${sessionId}; Path=/; Max-Age=${SESSION_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax`;
+}
@@ -0,0 +1,26 @@
+import type { SourceUrlUIPart, UIMessage } from 'ai';
+
+// Retrieval metadata attached to each source part by the chat route
+const getRagMetadata = (source: SourceUrlUIPart) =>
+  source.providerMetadata?.rag;
+
+export const getSourceParts = (message: UIMessage) =>
+  message.parts.filter(
+    (part): part is SourceUrlUIPart => part.type === 'source-url'
+  );
+
+export const getSourceScore = (source: SourceUrlUIPart) => {
+  const score = getRagMetadata(source)?.score;
+  return typeof score === 'number' ? score : undefined;
+};
+
+export const getSourceExcerpt = (source: SourceUrlUIPart) => {
+  const excerpt = getRagMetadata(source)?.excerpt;
+  return typeof excerpt === 'string' ? excerpt : undefined;
+};
+
+// Resolves a "[Source N]" marker to the source part the route labelled N
+export const findSourceByNumber = (
+  sources: SourceUrlUIPart[],
+  sourceNumber: number
+) => sources.find((source) => source.sourceId === `source-${sourceNumber}`);
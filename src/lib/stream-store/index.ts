@@ -0,0 +1,24 @@
+import { createMemoryStreamStore } from './memory-store';
+import type { StreamStore } from './types';
+
+export type { StreamStore } from './types';
+export { createMemoryStreamStore } from './memory-store';
+
+let store: StreamStore | null = null;
+
+// Selects where in-progress responses are kept from CHAT_STREAM_STORE ("memory" by default)
+export function getStreamStore(): StreamStore {
+  if (!store) {
+    const kind = process.env.CHAT_STREAM_STORE || 'memory';
+
+    switch (kind) {
+      case 'memory':
+        store = createMemoryStreamStore();
+        break;
+      default:
+        throw new Error(`Unknown CHAT_STREAM_STORE: ${kind}`);
+    }
+  }
+
+  return store;
+}
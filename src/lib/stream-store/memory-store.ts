@@ -0,0 +1,144 @@
+import { getLogger } from '@/lib/logger';
+import type { StreamStore } from './types';
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_ABANDON_SECONDS = 30;
+
+interface StreamEntry {
+  ownerId: string;
+  chunks: string[];
+  done: boolean;
+  subscribers: Set<ReadableStreamDefaultController<string>>;
+  abortController: AbortController;
+  // Whether the request that started the response is still connected
+  requesterConnected: boolean;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+}
+
+function ttlFromEnv(): number {
+  const seconds = Number(process.env.CHAT_STREAM_TTL_SECONDS);
+  return (seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+function abandonFromEnv(): number {
+  const seconds = Number(process.env.CHAT_STREAM_ABANDON_SECONDS);
+  return (seconds > 0 ? seconds : DEFAULT_ABANDON_SECONDS) * 1000;
+}
+
+/**
+ * Memory store - buffers each response in the server process, so clients of
+ * a single instance can reattach until the TTL after it finishes. A response
+ * nobody has followed for the abandon grace period is stopped.
+ */
+export function createMemoryStreamStore(
+  ttlMs: number = ttlFromEnv(),
+  abandonMs: number = abandonFromEnv()
+): StreamStore {
+  const streams = new Map<string, StreamEntry>();
+
+  const getOwned = (chatId: string, ownerId: string) => {
+    const entry = streams.get(chatId);
+    return entry?.ownerId === ownerId ? entry : undefined;
+  };
+
+  // Aborts generation unless a client resumes the response within the grace period
+  const watchAbandoned = (chatId: string, entry: StreamEntry) => {
+    if (entry.done || entry.requesterConnected || entry.subscribers.size > 0 || entry.abandonTimer) {
+      return;
+    }
+
+    entry.abandonTimer = setTimeout(() => {
+      entry.abandonTimer = undefined;
+      if (!entry.done && !entry.requesterConnected && entry.subscribers.size === 0) {
+        getLogger().info('chat.stream.abandoned', { chatId });
+        entry.abortController.abort();
+      }
+    }, abandonMs);
+    entry.abandonTimer.unref();
+  };
+
+  const forward = async (chatId: string, entry: StreamEntry, stream: ReadableStream<string>) => {
+    const reader = stream.getReader();
+
+    try {
+      for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        entry.chunks.push(next.value);
+        entry.subscribers.forEach((subscriber) => subscriber.enqueue(next.value));
+      }
+    } catch (error) {
+      getLogger().warn('chat.stream.buffer_failed', { chatId, error });
+    } finally {
+      entry.done = true;
+      clearTimeout(entry.abandonTimer);
+      entry.subscribers.forEach((subscriber) => subscriber.close());
+      entry.subscribers.clear();
+
+      setTimeout(() => {
+        if (streams.get(chatId) === entry) {
+          streams.delete(chatId);
+        }
+      }, ttlMs).unref();
+    }
+  };
+
+  return {
+    publish(chatId, ownerId, stream, abortController, requestSignal) {
+      const entry: StreamEntry = {
+        ownerId,
+        chunks: [],
+        done: false,
+        subscribers: new Set(),
+        abortController,
+        requesterConnected: !requestSignal.aborted,
+      };
+      streams.set(chatId, entry);
+
+      requestSignal.addEventListener('abort', () => {
+        entry.requesterConnected = false;
+        watchAbandoned(chatId, entry);
+      }, { once: true });
+      watchAbandoned(chatId, entry);
+
+      void forward(chatId, entry, stream);
+    },
+
+    resume(chatId, ownerId) {
+      const entry = getOwned(chatId, ownerId);
+      if (!entry) {
+        return null;
+      }
+
+      let subscriber: ReadableStreamDefaultController<string>;
+      return new ReadableStream<string>({
+        start(controller) {
+          subscriber = controller;
+          entry.chunks.forEach((chunk) => controller.enqueue(chunk));
+          if (entry.done) {
+            controller.close();
+          } else {
+            entry.subscribers.add(controller);
+            clearTimeout(entry.abandonTimer);
+            entry.abandonTimer = undefined;
+          }
+        },
+        cancel() {
+          entry.subscribers.delete(subscriber);
+          watchAbandoned(chatId, entry);
+        },
+      });
+    },
+
+    has(chatId, ownerId) {
+      return getOwned(chatId, ownerId) !== undefined;
+    },
+
+    cancel(chatId, ownerId) {
+      const entry = getOwned(chatId, ownerId);
+      if (!entry || entry.done) {
+        return false;
+      }
+      entry.abortController.abort();
+      return true;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// ============================================================================
+// RESUMABLE STREAM TYPES
+// ============================================================================
+
+/**
+ * Any backend able to share in-progress responses between requests (memory,
+ * Redis...). Responses belong to the browser session that started them;
+ * other owners see no response to resume or stop.
+ */
+export interface StreamStore {
+  // Records the SSE stream of a chat's response; aborting the controller stops generation,
+  // e.g. once the requesting client (requestSignal) has left and nobody resumed it
+  publish(
+    chatId: string,
+    ownerId: string,
+    stream: ReadableStream<string>,
+    abortController: AbortController,
+    requestSignal: AbortSignal
+  ): void;
+  // Replays the chat's latest response from the start and follows it while in progress
+  resume(chatId: string, ownerId: string): ReadableStream<string> | null;
+  has(chatId: string, ownerId: string): boolean;
+  // Stops the chat's response if it is still being generated
+  cancel(chatId: string, ownerId: string): boolean;
+}
@@ -0,0 +1,88 @@
+import { generateObject, type LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { getLogger } from '@/lib/logger';
+import { resolveModel } from '@/lib/models';
+import defaultStarterPrompts from './starter-prompts.json';
+
+// ============================================================================
+// STARTER PROMPTS & FOLLOW-UP QUESTIONS
+// ============================================================================
+
+const DEFAULT_FOLLOW_UP_COUNT = 3;
+
+const starterPromptsSchema = z.array(z.string().min(1)).max(8);
+
+const FOLLOW_UP_SYSTEM_PROMPT = `You suggest follow-up questions a visitor could ask a FIFA.com assistant next.
+
+RULES:
+- Build on the latest question and answer without repeating them
+- Stay within FIFA events, tickets, stadiums, groups, teams and official policies
+- Write in the language of the visitor's question
+- Keep each question short (under 12 words) and phrased as the visitor would ask it`;
+
+let starterPrompts: string[] | null = null;
+
+// Prompts shown on the empty chat screen, from CHAT_STARTER_PROMPTS (JSON array) or starter-prompts.json
+export function getStarterPrompts(): string[] {
+  if (!starterPrompts) {
+    const source = process.env.CHAT_STARTER_PROMPTS
+      ? JSON.parse(process.env.CHAT_STARTER_PROMPTS)
+      : defaultStarterPrompts;
+    starterPrompts = starterPromptsSchema.parse(source);
+  }
+
+  return starterPrompts;
+}
+
+export function isFollowUpEnabled(): boolean {
+  return process.env.CHAT_FOLLOW_UPS !== 'false';
+}
+
+// Between 2 and 4 questions per answer
+function followUpCount(): number {
+  const count = Number(process.env.CHAT_FOLLOW_UP_COUNT);
+  return Number.isInteger(count) ? Math.min(Math.max(count, 2), 4) : DEFAULT_FOLLOW_UP_COUNT;
+}
+
+export interface FollowUps {
+  questions: string[];
+  // Tokens used to generate them, for the caller's quota; absent when the call failed
+  usage?: LanguageModelUsage;
+}
+
+/**
+ * Generates follow-up questions for the latest exchange. Returns an empty
+ * list on failure so suggestions never break an answer.
+ */
+export async function generateFollowUps(
+  question: string,
+  answer: string,
+  abortSignal?: AbortSignal
+): Promise<FollowUps> {
+  const count = followUpCount();
+
+  try {
+    const { object, usage } = await generateObject({
+      model: resolveModel('suggestions').id,
+      system: FOLLOW_UP_SYSTEM_PROMPT,
+      prompt: `Visitor question: ${question}\n\nAssistant answer: ${answer}\n\nSuggest ${count} follow-up questions.`,
+      schema: z.object({
+        questions: z.array(z.string()),
+      }),
+      abortSignal,
+    });
+
+    const questions = object.questions
+      .map((followUp) => followUp.trim())
+      .filter(Boolean)
+      .slice(0, count);
+
+    return { questions, usage };
+  } catch (error) {
+    // A stopped answer needs no suggestions
+    if (!abortSignal?.aborted) {
+      getLogger().warn('chat.follow_ups.failed', { error });
+    }
+    return { questions: [] };
+  }
+}